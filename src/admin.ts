@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { ADMIN_TOKEN, ADMIN_TOKEN_FILE, COOKIE_SESSION } from './config.js';
+import { ensureAuthDir, getCookie } from './utils.js';
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12h
+
+let adminToken = '';
+// session id -> expiry (ms since epoch); sessions do not survive a restart
+const sessions = new Map<string, number>();
+
+async function storedAdminToken(): Promise<string | undefined> {
+  try {
+    return (await fs.readFile(ADMIN_TOKEN_FILE, 'utf8')).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// The admin token the server on this machine uses, without generating one
+// (for the CLI): configured, else the persisted one
+export async function resolveAdminToken(): Promise<string | undefined> {
+  return ADMIN_TOKEN || storedAdminToken();
+}
+
+// Resolve the admin token: ADMIN_TOKEN env wins, otherwise a token persisted
+// in auths/admin-token (generated on first start).
+export async function loadAdminToken(): Promise<{
+  token: string;
+  source: 'env' | 'file' | 'generated';
+}> {
+  if (ADMIN_TOKEN) {
+    adminToken = ADMIN_TOKEN;
+    return { token: adminToken, source: 'env' };
+  }
+  await ensureAuthDir();
+  const existing = await storedAdminToken();
+  if (existing) {
+    adminToken = existing;
+    return { token: adminToken, source: 'file' };
+  }
+  adminToken = randomBytes(24).toString('base64url');
+  await fs.writeFile(ADMIN_TOKEN_FILE, adminToken + '\n', {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+  return { token: adminToken, source: 'generated' };
+}
+
+export function checkAdminToken(candidate: string | undefined): boolean {
+  if (!adminToken || !candidate) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(adminToken);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function createSession(): string {
+  const id = randomBytes(32).toString('base64url');
+  sessions.set(id, Date.now() + SESSION_TTL_MS);
+  return id;
+}
+
+export function destroySession(id: string | undefined) {
+  if (id) sessions.delete(id);
+}
+
+function hasValidSession(c: any): boolean {
+  const id = getCookie(c, COOKIE_SESSION);
+  if (!id) return false;
+  const exp = sessions.get(id);
+  if (!exp) return false;
+  if (exp <= Date.now()) {
+    sessions.delete(id);
+    return false;
+  }
+  return true;
+}
+
+export function isAdmin(c: any): boolean {
+  if (hasValidSession(c)) return true;
+  const auth = c.req.header('Authorization') || '';
+  const m = /^Bearer\s+(.+)$/i.exec(auth.trim());
+  return !!m && checkAdminToken(m[1].trim());
+}
+
+// Middleware: admin session cookie (UI) or Authorization: Bearer <admin token> (API/CLI)
+export async function requireAdmin(c: any, next: () => Promise<void>) {
+  if (isAdmin(c)) return next();
+  const accept = c.req.header('Accept') || '';
+  if (c.req.method === 'GET' && accept.includes('text/html')) {
+    return c.redirect('/login');
+  }
+  return c.json({ error: 'unauthorized' }, 401);
+}
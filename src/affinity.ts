@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+
+// Session affinity: keep one conversation on one account so upstream prompt
+// caching and Chatgpt-Account-Id stay consistent. Pins live in memory only.
+
+const AFFINITY_TTL_MS = 60 * 60 * 1000; // 1h sliding
+const MAX_PINS = 10000;
+
+type Pin = { accountId: string; sessionId: string; expires: number };
+
+const pins = new Map<string, Pin>();
+// upstream response id -> affinity key, so previous_response_id chains follow the pin
+const responseKeys = new Map<string, { key: string; expires: number }>();
+
+function sweep<T extends { expires: number }>(map: Map<string, T>) {
+  if (map.size < MAX_PINS) return;
+  const now = Date.now();
+  for (const [k, v] of map) if (v.expires <= now) map.delete(k);
+  // Still full: drop the oldest insertions
+  for (const k of map.keys()) {
+    if (map.size < MAX_PINS) break;
+    map.delete(k);
+  }
+}
+
+function lookupResponse(id: string): string | undefined {
+  const r = responseKeys.get(id);
+  if (!r || r.expires <= Date.now()) return undefined;
+  return r.key;
+}
+
+// Derive the affinity key: session header, then prompt_cache_key, then previous_response_id
+export function affinityKey(c: any, payload: any): string | undefined {
+  const session =
+    c.req.header('session_id') ||
+    c.req.header('conversation_id') ||
+    c.req.header('x-session-id');
+  if (session) return 'session:' + session;
+  if (typeof payload?.prompt_cache_key === 'string' && payload.prompt_cache_key)
+    return 'cache:' + payload.prompt_cache_key;
+  const prev = payload?.previous_response_id;
+  if (typeof prev === 'string' && prev)
+    return lookupResponse(prev) || 'response:' + prev;
+  return undefined;
+}
+
+export function setAffinity(c: any, key: string | undefined) {
+  c.set('affinity', key);
+}
+
+export function getAffinity(c: any): string | undefined {
+  return c.get('affinity');
+}
+
+// Account id pinned to the key, if the pin is still alive (refreshes the TTL)
+export function pinnedAccountId(key: string): string | undefined {
+  const p = pins.get(key);
+  if (!p) return undefined;
+  if (p.expires <= Date.now()) {
+    pins.delete(key);
+    return undefined;
+  }
+  p.expires = Date.now() + AFFINITY_TTL_MS;
+  return p.accountId;
+}
+
+export function pinAccount(key: string, accountId: string) {
+  const p = pins.get(key);
+  if (p) {
+    p.accountId = accountId;
+    p.expires = Date.now() + AFFINITY_TTL_MS;
+    return;
+  }
+  sweep(pins);
+  pins.set(key, {
+    accountId,
+    sessionId: randomUUID(),
+    expires: Date.now() + AFFINITY_TTL_MS,
+  });
+}
+
+// Upstream Session_id: the client's own session header if present, else a
+// stable id per affinity key, else a fresh one per request
+export function upstreamSessionId(c: any): string {
+  const own = c.req.header('session_id');
+  if (own) return own;
+  const key = getAffinity(c);
+  const p = key ? pins.get(key) : undefined;
+  return p?.sessionId || randomUUID();
+}
+
+// Called when an upstream response completes: later requests that continue
+// from it via previous_response_id stay on the same account
+export function rememberResponse(c: any, responseId: string, accountId: string) {
+  const key = getAffinity(c) || 'response:' + responseId;
+  sweep(responseKeys);
+  responseKeys.set(responseId, { key, expires: Date.now() + AFFINITY_TTL_MS });
+  pinAccount(key, accountId);
+}
@@ -0,0 +1,467 @@
+// Converters between the Anthropic Messages API and the Responses API
+
+import {
+  buildReverseShortNameMap,
+  buildShortNameMap,
+  parseArgs,
+  resolveModel,
+  UnsupportedContentError,
+} from './converters.js';
+
+// thinking.budget_tokens -> reasoning effort
+function effortForThinking(thinking: any): string | undefined {
+  if (!thinking || typeof thinking !== 'object') return undefined;
+  if (thinking.type === 'disabled') return 'minimal';
+  if (thinking.type !== 'enabled') return undefined;
+  const budget = Number(thinking.budget_tokens) || 0;
+  if (budget < 4096) return 'low';
+  if (budget < 16384) return 'medium';
+  return 'high';
+}
+
+// Anthropic image/document sources -> Responses input parts
+function sourceUrl(source: any, param: string): string {
+  if (source?.type === 'url' && source.url) return source.url;
+  if (source?.type === 'base64' && source.data)
+    return `data:${source.media_type || 'application/octet-stream'};base64,${
+      source.data
+    }`;
+  throw new UnsupportedContentError(
+    `Unsupported source type '${source?.type}'`,
+    param + '.source'
+  );
+}
+
+function toolResultText(content: any, param: string): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  const texts: string[] = [];
+  content.forEach((b: any, j: number) => {
+    if (b?.type === 'text') {
+      if (b.text) texts.push(b.text);
+    } else {
+      throw new UnsupportedContentError(
+        `Content block type '${b?.type}' is not supported in tool_result`,
+        `${param}[${j}]`
+      );
+    }
+  });
+  return texts.join('\n');
+}
+
+const blocksOf = (content: any) =>
+  typeof content === 'string'
+    ? content
+      ? [{ type: 'text', text: content }]
+      : []
+    : Array.isArray(content)
+      ? content
+      : [];
+
+// Messages request -> Responses payload
+export function convertMessagesToResponses(payload: any) {
+  const out: any = {};
+  out.stream = !!payload?.stream;
+
+  // Model + reasoning
+  const { model, effort: modelEffort } = resolveModel(payload?.model);
+  const effort = effortForThinking(payload?.thinking) || modelEffort || 'low';
+  out.model = model;
+  out.reasoning = { effort, summary: 'auto' };
+  out.parallel_tool_calls = true;
+  out.include = ['reasoning.encrypted_content'];
+
+  // Tools
+  const tools = Array.isArray(payload?.tools) ? payload.tools : [];
+  const names: string[] = tools
+    .map((t: any) => t?.name)
+    .filter((n: any) => typeof n === 'string' && n);
+  const shortNames = buildShortNameMap(names);
+  const toolName = (name: string) => shortNames[name] || name;
+  if (tools.length) {
+    out.tools = tools.map((t: any, i: number) => {
+      if (t?.type && t.type !== 'custom')
+        throw new UnsupportedContentError(
+          `Server tool '${t.type}' is not supported`,
+          `tools[${i}]`
+        );
+      const item: any = { type: 'function', name: toolName(t?.name || '') };
+      if (t?.description !== undefined) item.description = t.description;
+      item.parameters = t?.input_schema || { type: 'object', properties: {} };
+      return item;
+    });
+  }
+  const tc = payload?.tool_choice;
+  if (tc?.type === 'any') out.tool_choice = 'required';
+  else if (tc?.type === 'none') out.tool_choice = 'none';
+  else if (tc?.type === 'tool' && tc.name)
+    out.tool_choice = { type: 'function', name: toolName(tc.name) };
+  if (tc?.disable_parallel_tool_use) out.parallel_tool_calls = false;
+
+  // System prompt: string or text blocks
+  const system = blocksOf(payload?.system)
+    .filter((b: any) => b?.type === 'text' && b.text)
+    .map((b: any) => b.text)
+    .join('\n\n');
+  out.instructions = system || 'You are a helpful assistant.';
+
+  // Messages -> input items, keeping block order
+  const input: any[] = [];
+  const msgs: any[] = Array.isArray(payload?.messages) ? payload.messages : [];
+  msgs.forEach((m: any, i: number) => {
+    const role = m?.role === 'assistant' ? 'assistant' : 'user';
+    let parts: any[] = [];
+    const flush = () => {
+      if (parts.length) input.push({ type: 'message', role, content: parts });
+      parts = [];
+    };
+    blocksOf(m?.content).forEach((b: any, j: number) => {
+      const param = `messages[${i}].content[${j}]`;
+      switch (b?.type) {
+        case 'text':
+          if (b.text)
+            parts.push({
+              type: role === 'assistant' ? 'output_text' : 'input_text',
+              text: b.text,
+            });
+          break;
+        case 'image':
+          if (role === 'assistant')
+            throw new UnsupportedContentError(
+              'image blocks are only supported in user messages',
+              param
+            );
+          parts.push({
+            type: 'input_image',
+            image_url: sourceUrl(b.source, param),
+          });
+          break;
+        case 'document':
+          if (role === 'assistant' || b.source?.type !== 'base64')
+            throw new UnsupportedContentError(
+              'Only base64 documents in user messages are supported',
+              param
+            );
+          parts.push({
+            type: 'input_file',
+            filename: b.title || 'document.pdf',
+            file_data: sourceUrl(b.source, param),
+          });
+          break;
+        case 'tool_use':
+          flush();
+          input.push({
+            type: 'function_call',
+            call_id: b.id || '',
+            name: toolName(b.name || ''),
+            arguments: JSON.stringify(b.input ?? {}),
+          });
+          break;
+        case 'tool_result': {
+          flush();
+          const text = toolResultText(b.content, param + '.content');
+          input.push({
+            type: 'function_call_output',
+            call_id: b.tool_use_id || '',
+            output: b.is_error ? `Error: ${text}` : text,
+          });
+          break;
+        }
+        case 'thinking':
+        case 'redacted_thinking':
+          // Signed by another backend: cannot be replayed upstream
+          break;
+        default:
+          throw new UnsupportedContentError(
+            `Unsupported content block type '${b?.type}'`,
+            param
+          );
+      }
+    });
+    flush();
+  });
+  out.input = input;
+  return out;
+}
+
+// Short tool name -> name in the request's tools
+export function buildReverseMapFromMessages(
+  original: any
+): Record<string, string> {
+  const tools = Array.isArray(original?.tools) ? original.tools : [];
+  const names: string[] = tools
+    .map((t: any) => t?.name)
+    .filter((n: any) => typeof n === 'string' && n);
+  return buildReverseShortNameMap(names);
+}
+
+// Responses usage -> Messages usage (input_tokens excludes cache reads)
+function messagesUsage(usage: any) {
+  const cached = Number(usage?.input_tokens_details?.cached_tokens) || 0;
+  return {
+    input_tokens: Math.max(0, (Number(usage?.input_tokens) || 0) - cached),
+    output_tokens: Number(usage?.output_tokens) || 0,
+    cache_read_input_tokens: cached,
+    cache_creation_input_tokens: 0,
+  };
+}
+
+function stopReason(resp: any, usedTools: boolean): string {
+  if (usedTools) return 'tool_use';
+  if (resp?.incomplete_details?.reason === 'max_output_tokens')
+    return 'max_tokens';
+  return 'end_turn';
+}
+
+// Anthropic-style error body
+export function messagesError(type: string, message: string) {
+  return { type: 'error', error: { type, message } };
+}
+
+// Anthropic error type for an HTTP status
+export function messagesErrorType(status: number): string {
+  switch (status) {
+    case 400:
+      return 'invalid_request_error';
+    case 401:
+      return 'authentication_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 413:
+      return 'request_too_large';
+    case 429:
+      return 'rate_limit_error';
+    case 503:
+    case 529:
+      return 'overloaded_error';
+    default:
+      return 'api_error';
+  }
+}
+
+// Non-stream mapping: Responses SSE blob -> Messages JSON
+export function convertResponsesBlobToMessage(
+  original: any,
+  blob: string
+): string {
+  let completed: any;
+  for (const line of blob.split(/\r?\n/)) {
+    if (!line.startsWith('data: ')) continue;
+    try {
+      const obj = JSON.parse(line.slice(6));
+      if (obj?.type === 'response.completed') {
+        completed = obj;
+        break;
+      }
+    } catch {}
+  }
+  if (!completed)
+    return JSON.stringify(
+      messagesError('api_error', 'invalid_upstream_response')
+    );
+  const resp = completed.response || {};
+  const rev = buildReverseMapFromMessages(original);
+  const thinking = original?.thinking?.type === 'enabled';
+  const content: any[] = [];
+  for (const it of Array.isArray(resp.output) ? resp.output : []) {
+    if (it?.type === 'reasoning' && thinking && Array.isArray(it.summary)) {
+      const text = it.summary
+        .filter((s: any) => s?.type === 'summary_text' && s.text)
+        .map((s: any) => s.text)
+        .join('\n\n');
+      if (text)
+        content.push({ type: 'thinking', thinking: text, signature: '' });
+    } else if (it?.type === 'message' && Array.isArray(it.content)) {
+      for (const part of it.content)
+        if (part?.type === 'output_text' && part.text)
+          content.push({ type: 'text', text: part.text });
+    } else if (it?.type === 'function_call') {
+      content.push({
+        type: 'tool_use',
+        id: it.call_id || '',
+        name: rev[it.name] || it.name || '',
+        input: parseArgs(it.arguments),
+      });
+    }
+  }
+  return JSON.stringify({
+    id: resp.id || '',
+    type: 'message',
+    role: 'assistant',
+    model: original?.model || resp.model || 'gpt-5',
+    content,
+    stop_reason: stopReason(resp, content.some((b) => b.type === 'tool_use')),
+    stop_sequence: null,
+    usage: messagesUsage(resp.usage),
+  });
+}
+
+// Per-stream state for mapResponsesLineToMessages: the open content block
+// (if any), the next block index, and upstream function_call item id -> block
+type BlockKind = 'text' | 'thinking' | 'tool_use';
+
+export type MessagesStreamState = {
+  started?: boolean;
+  open?: { index: number; kind: BlockKind; itemId?: string };
+  next?: number;
+  calls?: Record<string, { index: number; streamed: boolean }>;
+  usedTools?: boolean;
+};
+
+function sse(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// One Responses SSE data line -> zero or more Messages SSE events
+export function mapResponsesLineToMessages(
+  evtLine: string,
+  original: any,
+  revMap: Record<string, string>,
+  state: MessagesStreamState
+): string[] {
+  if (!evtLine.startsWith('data: ')) return [];
+  let evt: any;
+  try {
+    evt = JSON.parse(evtLine.slice(6));
+  } catch {
+    return [];
+  }
+  const out: string[] = [];
+  // message_start goes out with the first upstream event
+  if (!state.started) {
+    state.started = true;
+    out.push(
+      sse('message_start', {
+        type: 'message_start',
+        message: {
+          id: evt?.response?.id || '',
+          type: 'message',
+          role: 'assistant',
+          model: original?.model || 'gpt-5',
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      })
+    );
+  }
+  const close = () => {
+    if (!state.open) return;
+    out.push(
+      sse('content_block_stop', {
+        type: 'content_block_stop',
+        index: state.open.index,
+      })
+    );
+    state.open = undefined;
+  };
+  const open = (kind: BlockKind, block: any, itemId?: string) => {
+    close();
+    const index = state.next ?? 0;
+    state.next = index + 1;
+    state.open = { index, kind, itemId };
+    out.push(
+      sse('content_block_start', {
+        type: 'content_block_start',
+        index,
+        content_block: block,
+      })
+    );
+    return index;
+  };
+  const delta = (index: number, d: any) =>
+    out.push(
+      sse('content_block_delta', { type: 'content_block_delta', index, delta: d })
+    );
+  const toolBlock = (item: any) => ({
+    type: 'tool_use',
+    id: item.call_id || '',
+    name: revMap[item.name] || item.name || '',
+    input: {},
+  });
+
+  switch (evt?.type) {
+    case 'response.reasoning_summary_text.delta': {
+      if (original?.thinking?.type !== 'enabled' || !evt?.delta) break;
+      if (state.open?.kind !== 'thinking')
+        open('thinking', { type: 'thinking', thinking: '', signature: '' });
+      delta(state.open!.index, { type: 'thinking_delta', thinking: evt.delta });
+      break;
+    }
+    case 'response.reasoning_summary_text.done': {
+      if (state.open?.kind === 'thinking')
+        delta(state.open.index, { type: 'thinking_delta', thinking: '\n\n' });
+      break;
+    }
+    case 'response.output_text.delta': {
+      if (!evt?.delta) break;
+      if (state.open?.kind !== 'text') open('text', { type: 'text', text: '' });
+      delta(state.open!.index, { type: 'text_delta', text: evt.delta });
+      break;
+    }
+    case 'response.output_item.added': {
+      const item = evt?.item;
+      if (item?.type !== 'function_call') break;
+      const itemId = item.id ?? '#' + evt?.output_index;
+      const index = open('tool_use', toolBlock(item), itemId);
+      state.calls = state.calls || {};
+      state.calls[itemId] = { index, streamed: false };
+      state.usedTools = true;
+      break;
+    }
+    case 'response.function_call_arguments.delta': {
+      const call = state.calls?.[evt?.item_id ?? '#' + evt?.output_index];
+      if (!call || !evt?.delta) break;
+      call.streamed = true;
+      delta(call.index, { type: 'input_json_delta', partial_json: evt.delta });
+      break;
+    }
+    case 'response.output_item.done': {
+      const item = evt?.item;
+      if (item?.type !== 'function_call') break;
+      const itemId = item.id ?? '#' + evt?.output_index;
+      let call = state.calls?.[itemId];
+      if (!call) {
+        // Not announced by output_item.added: open the block now
+        const index = open('tool_use', toolBlock(item), itemId);
+        call = { index, streamed: false };
+        state.usedTools = true;
+      }
+      if (!call.streamed && item.arguments)
+        delta(call.index, {
+          type: 'input_json_delta',
+          partial_json: item.arguments,
+        });
+      call.streamed = true;
+      if (state.open?.itemId === itemId) close();
+      break;
+    }
+    case 'response.completed': {
+      close();
+      const resp = evt.response || {};
+      out.push(
+        sse('message_delta', {
+          type: 'message_delta',
+          delta: {
+            stop_reason: stopReason(resp, !!state.usedTools),
+            stop_sequence: null,
+          },
+          usage: messagesUsage(resp.usage),
+        })
+      );
+      out.push(sse('message_stop', { type: 'message_stop' }));
+      break;
+    }
+    case 'response.failed': {
+      close();
+      const message =
+        evt?.response?.error?.message || 'Upstream response failed';
+      out.push(sse('error', messagesError('api_error', message)));
+      break;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,251 @@
+import { promises as fs, watch } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import {
+  AUTH_DIR,
+  TOKENS_FILE,
+  RR_INDEX_FILE,
+  STRATEGY_FILE,
+  KEYS_FILE,
+  USAGE_FILE,
+} from '../config.js';
+import { ensureAuthDir } from '../utils.js';
+import type {
+  ApiKeyRecord,
+  StorageBackend,
+  StoredTokens,
+  TokenRecord,
+  UsageRecord,
+} from '../types.js';
+import { TOKENS_SCHEMA_VERSION } from '../schema.js';
+
+// Simple async mutex for file operations
+class Mutex {
+  private q: Promise<void> = Promise.resolve();
+  lock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.q.then(fn);
+    this.q = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+}
+const tokenMutex = new Mutex();
+const rrMutex = new Mutex();
+const keyMutex = new Mutex();
+const usageMutex = new Mutex();
+
+// The temp name is unique per write, so writers in other processes sharing
+// AUTH_DIR never write into (or rename away) each other's temp file
+async function atomicWrite(filePath: string, content: string) {
+  await ensureAuthDir();
+  const tmp = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tmp, content, 'utf8');
+    await fs.rename(tmp, filePath);
+  } catch (e) {
+    await fs.unlink(tmp).catch(() => {});
+    throw e;
+  }
+}
+
+// Missing file reads as empty; unreadable or malformed files throw
+async function loadJson<T>(file: string): Promise<T[]> {
+  let data: string;
+  try {
+    data = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+  return JSON.parse(data);
+}
+
+// Content of the tokens file as last read or written by this process, so the
+// watcher can tell external edits from our own writes
+let tokensSeen: string | undefined;
+const WATCH_DEBOUNCE_MS = 200;
+
+// A bare array is the original (version 1) layout
+async function loadTokens(): Promise<StoredTokens> {
+  let data: string;
+  try {
+    data = await fs.readFile(TOKENS_FILE, 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT')
+      return { version: TOKENS_SCHEMA_VERSION, accounts: [] };
+    throw e;
+  }
+  tokensSeen = data;
+  const parsed = JSON.parse(data);
+  if (Array.isArray(parsed)) return { version: 1, accounts: parsed };
+  if (Number.isInteger(parsed?.version) && Array.isArray(parsed?.accounts))
+    return { version: parsed.version, accounts: parsed.accounts };
+  throw new Error('expected {"version": n, "accounts": [...]}');
+}
+
+async function saveTokens(tokens: TokenRecord[]) {
+  const data = JSON.stringify(
+    { version: TOKENS_SCHEMA_VERSION, accounts: tokens },
+    null,
+    2
+  );
+  await atomicWrite(TOKENS_FILE, data);
+  tokensSeen = data;
+}
+
+async function loadRR(): Promise<number> {
+  try {
+    return parseInt(await fs.readFile(RR_INDEX_FILE, 'utf8'), 10) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+// Read-modify-write of the whole tokens file under the lock
+function mutateTokens<T>(
+  fn: (list: TokenRecord[]) => { list?: TokenRecord[]; result: T }
+): Promise<T> {
+  return tokenMutex.lock(async () => {
+    await ensureAuthDir();
+    const { list, result } = fn((await loadTokens()).accounts);
+    if (list) await saveTokens(list);
+    return result;
+  });
+}
+
+// Read-modify-write of the client keys file under the lock
+function mutateApiKeys<T>(
+  fn: (keys: ApiKeyRecord[]) => { keys?: ApiKeyRecord[]; result: T }
+): Promise<T> {
+  return keyMutex.lock(async () => {
+    await ensureAuthDir();
+    const { keys, result } = fn(await loadJson<ApiKeyRecord>(KEYS_FILE));
+    if (keys) await atomicWrite(KEYS_FILE, JSON.stringify(keys, null, 2));
+    return result;
+  });
+}
+
+// Original file layout: one JSON file per collection in AUTH_DIR
+export function jsonBackend(): StorageBackend {
+  return {
+    location: AUTH_DIR,
+
+    readTokens: () =>
+      tokenMutex.lock(async () => {
+        await ensureAuthDir();
+        return loadTokens();
+      }),
+
+    writeTokens: (tokens) => tokenMutex.lock(() => saveTokens(tokens)),
+
+    backupTokens: () =>
+      tokenMutex.lock(async () => {
+        const { version } = await loadTokens();
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const file = `${TOKENS_FILE}.v${version}-${stamp}.bak`;
+        try {
+          await fs.copyFile(TOKENS_FILE, file);
+        } catch (e: any) {
+          if (e?.code === 'ENOENT') return undefined;
+          throw e;
+        }
+        return file;
+      }),
+
+    // The file is replaced by rename, so watch the directory
+    watchTokens: (onChange) => {
+      let debounce: NodeJS.Timeout | undefined;
+      watch(AUTH_DIR, (_event, filename) => {
+        if (filename !== path.basename(TOKENS_FILE)) return;
+        clearTimeout(debounce);
+        debounce = setTimeout(async () => {
+          let data: string;
+          try {
+            data = await fs.readFile(TOKENS_FILE, 'utf8');
+          } catch {
+            return;
+          }
+          if (data !== tokensSeen) onChange();
+        }, WATCH_DEBOUNCE_MS);
+      }).unref();
+    },
+
+    updateToken: (id, fn) =>
+      mutateTokens((list) => {
+        const idx = list.findIndex((t) => t.id === id);
+        if (idx < 0) return { result: undefined };
+        list[idx] = fn(list[idx]);
+        return { list, result: list[idx] };
+      }),
+
+    updateTokens: (fns) =>
+      mutateTokens((list) => ({
+        list: list.map((t) => fns.get(t.id)?.(t) ?? t),
+        result: undefined,
+      })),
+
+    readRR: () => rrMutex.lock(loadRR),
+
+    writeRR: (v) => rrMutex.lock(() => atomicWrite(RR_INDEX_FILE, String(v))),
+
+    readStrategy: () =>
+      rrMutex.lock(async () => {
+        try {
+          return (await fs.readFile(STRATEGY_FILE, 'utf8')).trim();
+        } catch {
+          return undefined;
+        }
+      }),
+
+    writeStrategy: (v) => rrMutex.lock(() => atomicWrite(STRATEGY_FILE, v)),
+
+    // A malformed file throws: reading it as empty would reject every key,
+    // and the next change would overwrite it
+    readApiKeys: () =>
+      keyMutex.lock(async () => {
+        await ensureAuthDir();
+        return loadJson<ApiKeyRecord>(KEYS_FILE);
+      }),
+
+    updateApiKeys: mutateApiKeys,
+
+    updateApiKey: (id, fn) =>
+      mutateApiKeys((keys) => {
+        const idx = keys.findIndex((k) => k.id === id);
+        if (idx < 0) return { result: undefined };
+        const next = fn(keys[idx]);
+        // Unchanged records are not written back
+        if (JSON.stringify(next) === JSON.stringify(keys[idx]))
+          return { result: next };
+        keys[idx] = next;
+        return { keys, result: next };
+      }),
+
+    // Usage log: one JSON object per line, append-only
+    appendUsage: (entry) =>
+      usageMutex.lock(async () => {
+        await ensureAuthDir();
+        await fs.appendFile(USAGE_FILE, JSON.stringify(entry) + '\n', 'utf8');
+      }),
+
+    readUsage: () =>
+      usageMutex.lock(async () => {
+        let data = '';
+        try {
+          data = await fs.readFile(USAGE_FILE, 'utf8');
+        } catch {
+          return [] as UsageRecord[];
+        }
+        const out: UsageRecord[] = [];
+        for (const line of data.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            out.push(JSON.parse(line));
+          } catch {}
+        }
+        return out;
+      }),
+  };
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { SQLITE_FILE } from '../config.js';
+import { ensureAuthDir } from '../utils.js';
+import type {
+  ApiKeyRecord,
+  StorageBackend,
+  TokenRecord,
+  UsageRecord,
+} from '../types.js';
+import { jsonBackend } from './json.js';
+import { TOKENS_SCHEMA_VERSION } from '../schema.js';
+
+// SQLite store: records are kept as JSON documents, one row each, ordered by
+// position (add order). Every mutation runs in a transaction.
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS tokens (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS usage (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+type Db = BetterSqlite3.Database;
+
+function getMeta(db: Db, key: string): string | undefined {
+  const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value;
+}
+
+function setMeta(db: Db, key: string, value: string) {
+  db.prepare(
+    'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+  ).run(key, value);
+}
+
+function replaceAll(db: Db, table: 'tokens' | 'api_keys', rows: any[]) {
+  db.prepare(`DELETE FROM ${table}`).run();
+  const insert = db.prepare(
+    `INSERT INTO ${table} (id, position, data) VALUES (?, ?, ?)`
+  );
+  rows.forEach((r, i) => insert.run(r.id, i, JSON.stringify(r)));
+}
+
+function readAll<T>(db: Db, table: 'tokens' | 'api_keys'): T[] {
+  const rows = db
+    .prepare(`SELECT data FROM ${table} ORDER BY position`)
+    .all() as { data: string }[];
+  return rows.map((r) => JSON.parse(r.data));
+}
+
+// Version of the accounts in the tokens table (schema.ts)
+function readVersion(db: Db): number {
+  return parseInt(getMeta(db, 'schema_version') || '', 10) || 1;
+}
+
+function readRR(db: Db): number {
+  return parseInt(getMeta(db, 'rr_index') || '', 10) || 0;
+}
+
+// One-shot import of the JSON files on first open. The files are left in
+// place as a backup; the meta flag keeps them from being imported again.
+async function migrateFromJson(db: Db) {
+  if (getMeta(db, 'json_migrated')) return;
+  const json = jsonBackend();
+  const { version, accounts: tokens } = await json.readTokens();
+  const keys = await json.readApiKeys();
+  const usage = await json.readUsage();
+  const rr = await json.readRR();
+  const strategy = await json.readStrategy();
+  db.transaction(() => {
+    replaceAll(db, 'tokens', tokens);
+    replaceAll(db, 'api_keys', keys);
+    const insert = db.prepare('INSERT INTO usage (data) VALUES (?)');
+    for (const u of usage) insert.run(JSON.stringify(u));
+    setMeta(db, 'schema_version', String(version));
+    setMeta(db, 'rr_index', String(rr));
+    if (strategy) setMeta(db, 'strategy', strategy);
+    setMeta(db, 'json_migrated', new Date().toISOString());
+  })();
+  if (tokens.length || keys.length || usage.length)
+    console.log(
+      `Migrated ${tokens.length} account(s), ${keys.length} client key(s) and ${usage.length} usage record(s) from ${json.location} into ${SQLITE_FILE}; the JSON files are kept as a backup`
+    );
+}
+
+export async function sqliteBackend(): Promise<StorageBackend> {
+  let Database: typeof BetterSqlite3;
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch (e: any) {
+    throw new Error(
+      `The sqlite storage backend needs the better-sqlite3 package: ${e?.message || e}`
+    );
+  }
+  await ensureAuthDir();
+  await fs.mkdir(path.dirname(SQLITE_FILE), { recursive: true });
+  const db = new Database(SQLITE_FILE);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  await migrateFromJson(db);
+
+  const getToken = db.prepare('SELECT data FROM tokens WHERE id = ?');
+  const setToken = db.prepare('UPDATE tokens SET data = ? WHERE id = ?');
+
+  const updateToken = db.transaction(
+    (id: string, fn: (rec: TokenRecord) => TokenRecord) => {
+      const row = getToken.get(id) as { data: string } | undefined;
+      if (!row) return undefined;
+      const next = fn(JSON.parse(row.data));
+      setToken.run(JSON.stringify(next), id);
+      return next;
+    }
+  );
+
+  const updateTokens = db.transaction(
+    (fns: Map<string, (rec: TokenRecord) => TokenRecord>) => {
+      for (const [id, fn] of fns) updateToken(id, fn);
+    }
+  );
+
+  const getKey = db.prepare('SELECT data FROM api_keys WHERE id = ?');
+  const setKey = db.prepare('UPDATE api_keys SET data = ? WHERE id = ?');
+
+  const updateApiKey = db.transaction(
+    (id: string, fn: (rec: ApiKeyRecord) => ApiKeyRecord) => {
+      const row = getKey.get(id) as { data: string } | undefined;
+      if (!row) return undefined;
+      const next = fn(JSON.parse(row.data));
+      const data = JSON.stringify(next);
+      if (data !== row.data) setKey.run(data, id);
+      return next;
+    }
+  );
+
+  const updateApiKeys = db.transaction(
+    (fn: (keys: ApiKeyRecord[]) => { keys?: ApiKeyRecord[]; result: any }) => {
+      const { keys, result } = fn(readAll<ApiKeyRecord>(db, 'api_keys'));
+      if (keys) replaceAll(db, 'api_keys', keys);
+      return result;
+    }
+  );
+
+  return {
+    location: SQLITE_FILE,
+    readTokens: async () => ({
+      version: readVersion(db),
+      accounts: readAll<TokenRecord>(db, 'tokens'),
+    }),
+    writeTokens: async (tokens) =>
+      db.transaction(() => {
+        replaceAll(db, 'tokens', tokens);
+        setMeta(db, 'schema_version', String(TOKENS_SCHEMA_VERSION));
+      })(),
+    backupTokens: async () => {
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const file = `${SQLITE_FILE}.v${readVersion(db)}-${stamp}.bak`;
+      await db.backup(file);
+      return file;
+    },
+    updateToken: async (id, fn) => updateToken(id, fn),
+    updateTokens: async (fns) => updateTokens(fns),
+    readRR: async () => readRR(db),
+    writeRR: async (v) => setMeta(db, 'rr_index', String(v)),
+    readStrategy: async () => getMeta(db, 'strategy'),
+    writeStrategy: async (v) => setMeta(db, 'strategy', v),
+    readApiKeys: async () => readAll<ApiKeyRecord>(db, 'api_keys'),
+    updateApiKeys: async (fn) => updateApiKeys(fn),
+    updateApiKey: async (id, fn) => updateApiKey(id, fn),
+    appendUsage: async (entry) => {
+      db.prepare('INSERT INTO usage (data) VALUES (?)').run(
+        JSON.stringify(entry)
+      );
+    },
+    readUsage: async () =>
+      (
+        db.prepare('SELECT data FROM usage ORDER BY seq').all() as {
+          data: string;
+        }[]
+      ).map((r) => JSON.parse(r.data) as UsageRecord),
+  };
+}
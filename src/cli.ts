@@ -2,6 +2,7 @@
 import http from 'http';
 import { URL } from 'url';
 import { spawn } from 'child_process';
+import { readFileSync } from 'fs';
 import {
   OPENAI_AUTH_URL,
   OPENAI_CLIENT_ID,
@@ -13,21 +14,63 @@ import {
   generateCodeChallenge,
   randomState,
 } from './utils.js';
+import {
+  configuredKey,
+  decryptRecord,
+  encryptRecord,
+  encryptValue,
+  generateKey,
+  isEncrypted,
+  keyId,
+  mapSecrets,
+  parseKey,
+  rewrapValue,
+} from './secrets.js';
+import {
+  migrateTokens,
+  readStoredTokens,
+  storageLocation,
+  TOKENS_LOCK,
+  TOKENS_LOCK_TTL_MS,
+  writeStoredTokens,
+} from './storage.js';
+import { withLock } from './lock.js';
+import { resolveAdminToken } from './admin.js';
+import type { TokenRecord } from './types.js';
 
 type Args = {
   command?: string;
+  action?: string;
   server?: string;
+  token?: string;
+  newKey?: string;
+  newKeyFile?: string;
 };
 
 function parseArgs(argv: string[]): Args {
-  const out: Args = { command: undefined, server: undefined };
+  const out: Args = {
+    command: undefined,
+    server: undefined,
+    token: undefined,
+  };
   const rest = argv.slice(2);
   if (rest.length > 0) out.command = rest[0];
   for (let i = 1; i < rest.length; i++) {
     const a = rest[i];
-    if (a === '--server' || a === '-s') {
+    if (i === 1 && !a.startsWith('-')) {
+      out.action = a;
+    } else if (a === '--new-key') {
+      out.newKey = rest[i + 1];
+      i++;
+    } else if (a === '--new-key-file') {
+      out.newKeyFile = rest[i + 1];
+      i++;
+    } else if (a === '--server' || a === '-s') {
       out.server = rest[i + 1];
       i++;
+    } else if (a === '--token' || a === '-t') {
+      out.token = rest[i + 1];
+      i++;
     }
   }
   return out;
@@ -79,11 +122,19 @@ async function exchangeCode({
   return resp.json();
 }
 
-async function importTokens(serverBase: string, tokens: any) {
+async function importTokens(
+  serverBase: string,
+  adminToken: string | undefined,
+  tokens: any
+) {
   const url = new URL('/accounts/import', serverBase);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (adminToken) headers.Authorization = `Bearer ${adminToken}`;
   const resp = await fetch(url.toString(), {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers,
     body: JSON.stringify(tokens),
   });
   if (!resp.ok) {
@@ -93,7 +144,7 @@ async function importTokens(serverBase: string, tokens: any) {
   return resp.json();
 }
 
-async function login(serverBase?: string) {
+async function login(serverBase?: string, adminToken?: string) {
   const base = serverBase || 'http://127.0.0.1:1456';
   const verifier = generateCodeVerifier();
   const challenge = generateCodeChallenge(verifier);
@@ -160,7 +211,7 @@ async function login(serverBase?: string) {
   if (!access_token) throw new Error('No access_token in response');
 
   console.log(`Importing account to server ${base} ...`);
-  const result = await importTokens(base, {
+  const result = await importTokens(base, adminToken, {
     access_token,
     refresh_token,
     id_token,
@@ -170,17 +221,97 @@ async function login(serverBase?: string) {
   console.log('Login complete.');
 }
 
+// Encrypt, decrypt or re-key the secrets in the tokens file in place. The
+// server should be stopped while this runs.
+async function tokensCommand(args: Args) {
+  if (args.action === 'keygen') {
+    console.log(generateKey());
+    return;
+  }
+  const key = configuredKey();
+  const where = await storageLocation();
+  // Same lock as the server's registry, so a running server's sync cannot
+  // interleave with the rewrite
+  await withLock(TOKENS_LOCK, TOKENS_LOCK_TTL_MS, async () => {
+    const migrated = await migrateTokens();
+    if (migrated)
+      console.log(
+        `Upgraded ${where} from schema version ${migrated.from} to ${migrated.to}` +
+          (migrated.backup ? `; backup in ${migrated.backup}` : '')
+      );
+    const list = await readStoredTokens();
+    let next: TokenRecord[];
+    if (args.action === 'encrypt') {
+      if (!key)
+        throw new Error(
+          'No encryption key configured (set CODEX_EQUILIBRIUM_ENCRYPTION_KEY or CODEX_EQUILIBRIUM_ENCRYPTION_KEY_FILE)'
+        );
+      next = list.map((t) => encryptRecord(t, key));
+      console.log(`Encrypted ${where} with key ${keyId(key)}`);
+    } else if (args.action === 'decrypt') {
+      next = list.map((t) => decryptRecord(t, key));
+      console.log(`Decrypted ${where}`);
+    } else if (args.action === 'rotate') {
+      let newKey: Buffer;
+      if (args.newKey) newKey = parseKey(args.newKey, '--new-key');
+      else if (args.newKeyFile)
+        newKey = parseKey(readFileSync(args.newKeyFile, 'utf8'), args.newKeyFile);
+      else throw new Error('rotate needs --new-key <key> or --new-key-file <path>');
+      next = list.map((t) =>
+        mapSecrets(t, (v) => {
+          if (!isEncrypted(v)) return encryptValue(v, newKey);
+          if (!key)
+            throw new Error(
+              'Tokens are encrypted; configure the current key to rotate it'
+            );
+          return rewrapValue(v, key, newKey);
+        })
+      );
+      console.log(
+        `Re-encrypted ${where} with key ${keyId(newKey)}; configure the new key before starting the server`
+      );
+    } else {
+      throw new Error(`Unknown tokens action: ${args.action || '(none)'}`);
+    }
+    await writeStoredTokens(next);
+  });
+}
+
 async function main() {
   const args = parseArgs(process.argv);
   if (!args.command || args.command === 'help' || args.command === '--help') {
     console.log('Usage:');
-    console.log('  codex-equilibrium login --server http://localhost:1456');
-    console.log('  npm run login -- --server http://localhost:1456');
+    console.log(
+      '  codex-equilibrium login --server http://localhost:1456 --token <admin token>'
+    );
+    console.log(
+      '  npm run login -- --server http://localhost:1456 --token <admin token>'
+    );
+    console.log(
+      '  (without --token: ADMIN_TOKEN / CODEX_EQUILIBRIUM_ADMIN_TOKEN, the config file, else auths/admin-token)'
+    );
+    console.log('  codex-equilibrium tokens keygen');
+    console.log('  codex-equilibrium tokens encrypt|decrypt');
+    console.log(
+      '  codex-equilibrium tokens rotate --new-key <key> | --new-key-file <path>'
+    );
+    console.log(
+      '  (encrypt/decrypt/rotate use the configured key, e.g. CODEX_EQUILIBRIUM_ENCRYPTION_KEY)'
+    );
     process.exit(0);
   }
+  if (args.command === 'tokens') {
+    try {
+      await tokensCommand(args);
+    } catch (e: any) {
+      console.error(e?.message || String(e));
+      process.exit(1);
+    }
+    return;
+  }
   if (args.command === 'login') {
     try {
-      await login(args.server);
+      await login(args.server, args.token ?? (await resolveAdminToken()));
     } catch (e: any) {
       console.error(e?.message || String(e));
       process.exit(1);
@@ -1,23 +1,513 @@
+import fs from 'fs';
 import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Settings come from, in increasing precedence: built-in defaults, a config
+// file (JSON or YAML) and environment variables. The file is the one named by
+// CODEX_EQUILIBRIUM_CONFIG, else the first of CONFIG_FILE_NAMES found in the
+// working directory. Invalid settings abort startup with one line per problem.
+
+const CONFIG_FILE_NAMES = [
+  'codex-equilibrium.json',
+  'codex-equilibrium.yaml',
+  'codex-equilibrium.yml',
+];
+
+type Kind =
+  | 'port'
+  | 'url'
+  | 'path'
+  | 'optionalPath'
+  | 'secret'
+  | 'duration'
+  | 'percent'
+  | 'choice'
+  | 'count'
+  | 'statuses';
+
+type Setting = {
+  key: string; // dotted path in the config file
+  env: string[]; // environment variables, first set wins
+  kind: Kind;
+  def: string | number | number[];
+  choices?: string[]; // allowed values of a 'choice' setting
+};
+
+const SETTINGS: Setting[] = [
+  {
+    key: 'port',
+    env: ['CODEX_EQUILIBRIUM_PORT', 'PORT'],
+    kind: 'port',
+    def: 1456,
+  },
+  {
+    key: 'authDir',
+    env: ['CODEX_EQUILIBRIUM_AUTH_DIR'],
+    kind: 'path',
+    def: 'auths',
+  },
+  {
+    key: 'upstream',
+    env: ['CODEX_EQUILIBRIUM_UPSTREAM'],
+    kind: 'url',
+    def: 'https://chatgpt.com/backend-api/codex',
+  },
+  {
+    key: 'storage.backend',
+    env: ['CODEX_EQUILIBRIUM_STORAGE'],
+    kind: 'choice',
+    def: 'json',
+    choices: ['json', 'sqlite'],
+  },
+  {
+    key: 'storage.sqliteFile',
+    env: ['CODEX_EQUILIBRIUM_SQLITE_FILE'],
+    kind: 'optionalPath',
+    def: '',
+  },
+  {
+    key: 'storage.writeDelay',
+    env: ['CODEX_EQUILIBRIUM_STORAGE_WRITE_DELAY'],
+    kind: 'duration',
+    def: '1s',
+  },
+  {
+    key: 'storage.syncInterval',
+    env: ['CODEX_EQUILIBRIUM_STORAGE_SYNC_INTERVAL'],
+    kind: 'duration',
+    def: '5s',
+  },
+  {
+    key: 'redirectUri',
+    env: ['CODEX_EQUILIBRIUM_REDIRECT_URI'],
+    kind: 'url',
+    def: 'http://localhost:1455/auth/callback',
+  },
+  {
+    key: 'adminToken',
+    env: ['CODEX_EQUILIBRIUM_ADMIN_TOKEN', 'ADMIN_TOKEN'],
+    kind: 'secret',
+    def: '',
+  },
+  {
+    key: 'refresh.interval',
+    env: ['CODEX_EQUILIBRIUM_REFRESH_INTERVAL'],
+    kind: 'duration',
+    def: '15m',
+  },
+  {
+    key: 'refresh.jitter',
+    env: ['CODEX_EQUILIBRIUM_REFRESH_JITTER'],
+    kind: 'duration',
+    def: '3m',
+  },
+  {
+    key: 'refresh.nearExpiry',
+    env: ['CODEX_EQUILIBRIUM_REFRESH_NEAR_EXPIRY'],
+    kind: 'duration',
+    def: '10m',
+  },
+  {
+    key: 'rotation.quotaThreshold',
+    env: ['CODEX_EQUILIBRIUM_QUOTA_THRESHOLD'],
+    kind: 'percent',
+    def: 90,
+  },
+  {
+    key: 'probe.interval',
+    env: ['CODEX_EQUILIBRIUM_PROBE_INTERVAL'],
+    kind: 'duration',
+    def: '1m',
+  },
+  {
+    key: 'probe.backoffBase',
+    env: ['CODEX_EQUILIBRIUM_PROBE_BACKOFF_BASE'],
+    kind: 'duration',
+    def: '1m',
+  },
+  {
+    key: 'probe.backoffMax',
+    env: ['CODEX_EQUILIBRIUM_PROBE_BACKOFF_MAX'],
+    kind: 'duration',
+    def: '1h',
+  },
+  {
+    key: 'cooldown.failure',
+    env: ['CODEX_EQUILIBRIUM_COOLDOWN_FAILURE'],
+    kind: 'duration',
+    def: '3h',
+  },
+  {
+    key: 'cooldown.refreshRateLimit',
+    env: ['CODEX_EQUILIBRIUM_COOLDOWN_REFRESH_RATE_LIMIT'],
+    kind: 'duration',
+    def: '30m',
+  },
+  {
+    key: 'cooldown.refreshAuth',
+    env: ['CODEX_EQUILIBRIUM_COOLDOWN_REFRESH_AUTH'],
+    kind: 'duration',
+    def: '10m',
+  },
+  {
+    key: 'cooldown.refreshBackoffMax',
+    env: ['CODEX_EQUILIBRIUM_COOLDOWN_REFRESH_BACKOFF_MAX'],
+    kind: 'duration',
+    def: '30m',
+  },
+  {
+    key: 'failover.maxAttempts',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_MAX_ATTEMPTS'],
+    kind: 'count',
+    def: 6,
+  },
+  {
+    key: 'failover.sameAccountRetries',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_SAME_ACCOUNT_RETRIES'],
+    kind: 'count',
+    def: 1,
+  },
+  {
+    key: 'failover.backoffBase',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_BACKOFF_BASE'],
+    kind: 'duration',
+    def: '250ms',
+  },
+  {
+    key: 'failover.backoffMax',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_BACKOFF_MAX'],
+    kind: 'duration',
+    def: '4s',
+  },
+  {
+    key: 'failover.retry',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_RETRY'],
+    kind: 'statuses',
+    def: [408, 500, 502, 503, 504],
+  },
+  {
+    key: 'failover.refresh',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_REFRESH'],
+    kind: 'statuses',
+    def: [401, 403],
+  },
+  {
+    key: 'failover.rotate',
+    env: ['CODEX_EQUILIBRIUM_FAILOVER_ROTATE'],
+    kind: 'statuses',
+    def: [429],
+  },
+  {
+    key: 'queue.maxWait',
+    env: ['CODEX_EQUILIBRIUM_QUEUE_MAX_WAIT'],
+    kind: 'duration',
+    def: 0,
+  },
+  {
+    key: 'queue.maxSize',
+    env: ['CODEX_EQUILIBRIUM_QUEUE_MAX_SIZE'],
+    kind: 'count',
+    def: 100,
+  },
+  {
+    key: 'encryption.key',
+    env: ['CODEX_EQUILIBRIUM_ENCRYPTION_KEY'],
+    kind: 'secret',
+    def: '',
+  },
+  {
+    key: 'encryption.keyFile',
+    env: ['CODEX_EQUILIBRIUM_ENCRYPTION_KEY_FILE'],
+    kind: 'optionalPath',
+    def: '',
+  },
+];
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Number of milliseconds, or a string such as "90s", "15m", "3h"
+function parseDuration(v: unknown): number | undefined {
+  if (typeof v === 'number')
+    return Number.isFinite(v) && v >= 0 ? v : undefined;
+  if (typeof v !== 'string') return undefined;
+  const m = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?\s*$/.exec(v);
+  if (!m) return undefined;
+  return Math.round(Number(m[1]) * DURATION_UNITS[m[2] || 'ms']);
+}
+
+function parseValue(
+  s: Setting,
+  v: unknown
+): { value?: any; error?: string } {
+  switch (s.kind) {
+    case 'port': {
+      const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+      if (typeof n === 'number' && Number.isInteger(n) && n > 0 && n < 65536)
+        return { value: n };
+      return { error: 'must be a port number between 1 and 65535' };
+    }
+    case 'url': {
+      if (typeof v === 'string') {
+        try {
+          const u = new URL(v);
+          if (u.protocol === 'http:' || u.protocol === 'https:')
+            return { value: v.replace(/\/+$/, '') };
+        } catch {}
+      }
+      return { error: 'must be an http(s) URL' };
+    }
+    case 'path':
+      if (typeof v === 'string' && v.trim())
+        return { value: path.resolve(process.cwd(), v) };
+      return { error: 'must be a non-empty path' };
+    case 'optionalPath':
+      if (typeof v === 'string')
+        return { value: v.trim() ? path.resolve(process.cwd(), v) : '' };
+      return { error: 'must be a path' };
+    case 'secret':
+      if (typeof v === 'string') return { value: v };
+      return { error: 'must be a string' };
+    case 'percent': {
+      const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+      if (typeof n === 'number' && n >= 0 && n <= 100) return { value: n };
+      return { error: 'must be a percentage between 0 and 100' };
+    }
+    case 'duration': {
+      const ms = parseDuration(v);
+      if (ms !== undefined) return { value: ms };
+      return {
+        error: 'must be milliseconds or a duration like "90s", "15m", "3h"',
+      };
+    }
+    case 'choice':
+      if (typeof v === 'string' && s.choices?.includes(v)) return { value: v };
+      return { error: `must be one of ${s.choices?.join(', ')}` };
+    case 'count': {
+      const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+      if (typeof n === 'number' && Number.isInteger(n) && n >= 0)
+        return { value: n };
+      return { error: 'must be a whole number' };
+    }
+    case 'statuses': {
+      // A list, or a comma-separated string ("" for none)
+      const items =
+        typeof v === 'string'
+          ? v.split(',').filter((x) => x.trim())
+          : Array.isArray(v)
+          ? v
+          : undefined;
+      const codes = items?.map((x) => Number(x));
+      if (
+        codes &&
+        codes.every((n) => Number.isInteger(n) && n >= 100 && n <= 599)
+      )
+        return { value: codes };
+      return { error: 'must be a list of HTTP status codes, like "500,502"' };
+    }
+  }
+}
+
+function findConfigFile(): string | undefined {
+  const explicit = process.env.CODEX_EQUILIBRIUM_CONFIG;
+  if (explicit) return path.resolve(process.cwd(), explicit);
+  for (const name of CONFIG_FILE_NAMES) {
+    const p = path.join(process.cwd(), name);
+    if (fs.existsSync(p)) return p;
+  }
+  return undefined;
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  const text = fs.readFileSync(file, 'utf8');
+  const data = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  if (data == null) return {};
+  if (typeof data !== 'object' || Array.isArray(data))
+    throw new Error('top level must be an object');
+  return data;
+}
+
+// Nested objects -> dotted keys ({ refresh: { interval } } -> refresh.interval)
+function flatten(
+  obj: Record<string, unknown>,
+  prefix = ''
+): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  for (const [k, v] of Object.entries(obj)) {
+    const key = prefix + k;
+    if (v && typeof v === 'object' && !Array.isArray(v))
+      for (const [kk, vv] of flatten(v as Record<string, unknown>, key + '.'))
+        out.set(kk, vv);
+    else out.set(key, v);
+  }
+  return out;
+}
+
+type ConfigSource = 'default' | 'file' | 'env';
+
+type Loaded = {
+  file?: string;
+  values: Record<string, any>;
+  sources: Record<string, { source: ConfigSource; env?: string }>;
+};
+
+function loadConfig(): Loaded {
+  const errors: string[] = [];
+  const file = findConfigFile();
+  let fromFile = new Map<string, unknown>();
+  if (file) {
+    try {
+      fromFile = flatten(readConfigFile(file));
+    } catch (e: any) {
+      const reason =
+        e?.code === 'ENOENT' ? 'file not found' : e?.message || String(e);
+      errors.push(`${file}: ${reason}`);
+    }
+    for (const key of fromFile.keys())
+      if (!SETTINGS.some((s) => s.key === key))
+        errors.push(`${file}: unknown setting '${key}'`);
+  }
+
+  const values: Record<string, any> = {};
+  const sources: Loaded['sources'] = {};
+  for (const s of SETTINGS) {
+    // Set but empty counts as set: it is how an env var clears a list
+    const env = s.env.find((name) => process.env[name] !== undefined);
+    let raw: unknown = s.def;
+    let where = 'default';
+    sources[s.key] = { source: 'default' };
+    if (env) {
+      raw = process.env[env];
+      where = `environment variable ${env}`;
+      sources[s.key] = { source: 'env', env };
+    } else if (fromFile.has(s.key)) {
+      raw = fromFile.get(s.key);
+      where = `${file}: '${s.key}'`;
+      sources[s.key] = { source: 'file' };
+    }
+    const { value, error } = parseValue(s, raw);
+    if (error) errors.push(`${where} ${error} (got ${JSON.stringify(raw)})`);
+    values[s.key] = value;
+  }
+
+  if (errors.length) {
+    console.error(
+      'Invalid configuration:\n' + errors.map((e) => '  - ' + e).join('\n')
+    );
+    process.exit(1);
+  }
+  return { file, values, sources };
+}
+
+const loaded = loadConfig();
+const v = loaded.values;
+
+// Effective settings for the admin API; secrets are never returned
+export function effectiveConfig() {
+  const settings: Record<string, any> = {};
+  for (const s of SETTINGS) {
+    const value = v[s.key];
+    settings[s.key] = {
+      value: s.kind === 'secret' ? (value ? '[redacted]' : '') : value,
+      ...loaded.sources[s.key],
+    };
+  }
+  return { file: loaded.file || null, settings };
+}
 
 // Server config
-export const PORT = 1456;
+export const PORT: number = v['port'];
+
+// Admin credential for the management API and web UI. When unset, a token is
+// generated on first start and persisted in ADMIN_TOKEN_FILE.
+export const ADMIN_TOKEN: string = v['adminToken'];
 
 // OAuth/OpenAI constants (aligned with internal/auth/codex)
 export const OPENAI_AUTH_URL = 'https://auth.openai.com/oauth/authorize';
 export const OPENAI_TOKEN_URL = 'https://auth.openai.com/oauth/token';
 export const OPENAI_CLIENT_ID = 'app_EMoamEEZ73f0CkXaXp7hrann';
-// OAuth redirect must remain fixed to this URL (client-local callback)
-export const REDIRECT_URI = 'http://localhost:1455/auth/callback';
+// OAuth redirect registered for the client; only change it when the callback
+// is reachable elsewhere (e.g. behind a port forward)
+export const REDIRECT_URI: string = v['redirectUri'];
 
 // ChatGPT Codex backend
-export const CHATGPT_ENDPOINT = 'https://chatgpt.com/backend-api/codex';
+export const CHATGPT_ENDPOINT: string = v['upstream'];
+
+// Background refresh loop: every interval ± jitter, refreshing tokens that
+// expire within nearExpiry
+export const REFRESH_INTERVAL_MS: number = v['refresh.interval'];
+export const REFRESH_JITTER_MS: number = v['refresh.jitter'];
+export const REFRESH_NEAR_EXPIRY_MS: number = v['refresh.nearExpiry'];
+
+// Accounts whose reported usage window reaches this percentage are only used
+// when no other account has headroom left
+export const QUOTA_THRESHOLD_PERCENT: number = v['rotation.quotaThreshold'];
+
+// Health prober: how often cooling/failed accounts are checked (0 disables),
+// and the backoff between probes of an account that keeps failing
+export const PROBE_INTERVAL_MS: number = v['probe.interval'];
+export const PROBE_BACKOFF_BASE_MS: number = v['probe.backoffBase'];
+export const PROBE_BACKOFF_MAX_MS: number = v['probe.backoffMax'];
+
+// Account cooldowns: after a request fails over, and after failed refreshes
+// (rate limited, rejected credentials, or transient errors backing off
+// exponentially up to the maximum)
+export const FAILURE_COOLDOWN_MS: number = v['cooldown.failure'];
+export const REFRESH_RATE_LIMIT_COOLDOWN_MS: number =
+  v['cooldown.refreshRateLimit'];
+export const REFRESH_AUTH_COOLDOWN_MS: number = v['cooldown.refreshAuth'];
+export const REFRESH_BACKOFF_MAX_MS: number = v['cooldown.refreshBackoffMax'];
+
+// Failover of proxied requests (failover.ts): the attempt budget per
+// request, retries on the same account before moving on, the jittered
+// backoff between them, and what to do on each upstream status. Other
+// statuses are returned to the client as they are.
+export const FAILOVER_MAX_ATTEMPTS: number = v['failover.maxAttempts'];
+export const FAILOVER_SAME_ACCOUNT_RETRIES: number =
+  v['failover.sameAccountRetries'];
+export const FAILOVER_BACKOFF_BASE_MS: number = v['failover.backoffBase'];
+export const FAILOVER_BACKOFF_MAX_MS: number = v['failover.backoffMax'];
+export const FAILOVER_RETRY_STATUSES: number[] = v['failover.retry'];
+export const FAILOVER_REFRESH_STATUSES: number[] = v['failover.refresh'];
+export const FAILOVER_ROTATE_STATUSES: number[] = v['failover.rotate'];
+
+// Requests arriving while no account is usable wait up to maxWait for the
+// soonest cooldown to end (0 answers 503 right away), at most maxSize at once
+export const QUEUE_MAX_WAIT_MS: number = v['queue.maxWait'];
+export const QUEUE_MAX_SIZE: number = v['queue.maxSize'];
+
+// Master key for encrypting account secrets at rest (32 bytes, base64 or
+// hex), given directly or as a file holding it. Unset leaves them plaintext.
+export const ENCRYPTION_KEY: string = v['encryption.key'];
+export const ENCRYPTION_KEY_FILE: string = v['encryption.keyFile'];
 
 // Cookie names
 export const COOKIE_STATE = 'oauth_state';
 export const COOKIE_VERIFIER = 'oauth_verifier';
+export const COOKIE_SESSION = 'admin_session';
 
 // Storage paths
-export const AUTH_DIR = path.join(process.cwd(), 'auths');
+export const AUTH_DIR: string = v['authDir'];
 export const TOKENS_FILE = path.join(AUTH_DIR, 'codex_tokens.json');
 export const RR_INDEX_FILE = path.join(AUTH_DIR, 'rr-index');
+export const STRATEGY_FILE = path.join(AUTH_DIR, 'strategy');
+export const KEYS_FILE = path.join(AUTH_DIR, 'api_keys.json');
+export const ADMIN_TOKEN_FILE = path.join(AUTH_DIR, 'admin-token');
+export const USAGE_FILE = path.join(AUTH_DIR, 'usage.jsonl');
+// Cross-process locks (several servers sharing AUTH_DIR)
+export const LOCK_DIR = path.join(AUTH_DIR, 'locks');
+
+// Storage backend: the JSON files above, or one SQLite database (imported
+// from the JSON files on first start)
+export const STORAGE_BACKEND: 'json' | 'sqlite' = v['storage.backend'];
+export const SQLITE_FILE: string =
+  v['storage.sqliteFile'] || path.join(AUTH_DIR, 'codex-equilibrium.db');
+// Account changes are kept in memory and written back at most this often
+export const STORAGE_WRITE_DELAY_MS: number = v['storage.writeDelay'];
+// How often changes stored by other processes are picked up (0 disables)
+export const STORAGE_SYNC_INTERVAL_MS: number = v['storage.syncInterval'];
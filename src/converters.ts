@@ -1,5 +1,69 @@
 // Helper functions and converters between OpenAI Chat API and Responses API
 
+// Thrown for request content that cannot be represented in a Responses request;
+// routes turn it into a 400 instead of silently dropping the content.
+export class UnsupportedContentError extends Error {
+  constructor(message: string, readonly param: string) {
+    super(message);
+    this.name = 'UnsupportedContentError';
+  }
+}
+
+// Chat content parts -> Responses input content parts (user messages)
+function convertUserContent(content: any, param: string): any[] {
+  if (typeof content === 'string')
+    return content ? [{ type: 'input_text', text: content }] : [];
+  if (!Array.isArray(content)) return [];
+  const parts: any[] = [];
+  content.forEach((x: any, j: number) => {
+    const p = `${param}[${j}]`;
+    switch (x?.type) {
+      case 'text':
+        if (x.text) parts.push({ type: 'input_text', text: x.text });
+        break;
+      case 'image_url': {
+        // Both https URLs and data: URIs are accepted upstream as-is
+        const url =
+          typeof x.image_url === 'string' ? x.image_url : x.image_url?.url;
+        if (!url)
+          throw new UnsupportedContentError('image_url part without a url', p);
+        const item: any = { type: 'input_image', image_url: url };
+        if (x.image_url?.detail) item.detail = x.image_url.detail;
+        parts.push(item);
+        break;
+      }
+      case 'file': {
+        const f = x.file || {};
+        if (!f.file_data)
+          throw new UnsupportedContentError(
+            'file parts must carry inline file_data; file_id references are not supported',
+            p
+          );
+        parts.push({
+          type: 'input_file',
+          filename: f.filename || 'file',
+          file_data: f.file_data,
+        });
+        break;
+      }
+      case 'input_audio':
+        throw new UnsupportedContentError(
+          'input_audio parts are not supported by the upstream backend',
+          p
+        );
+      case 'tool_result':
+        // handled separately as function_call_output
+        break;
+      default:
+        throw new UnsupportedContentError(
+          `Unsupported content part type '${x?.type}'`,
+          p
+        );
+    }
+  });
+  return parts;
+}
+
 function shortenNameIfNeeded(name: string): string {
   const limit = 64;
   if (name.length <= limit) return name;
@@ -14,7 +78,33 @@ function shortenNameIfNeeded(name: string): string {
   return name.slice(0, limit);
 }
 
-function buildShortNameMap(names: string[]): Record<string, string> {
+const COMPLETION_INSTRUCTIONS =
+  'Continue the text provided by the user. Reply with the continuation only, without repeating the given text.';
+const INSERTION_INSTRUCTIONS =
+  'The user provides a <prefix> and a <suffix>. Reply only with the text that belongs between them, without repeating either.';
+
+const EFFORT_MODELS: Record<string, string> = {
+  'gpt-5-minimal': 'minimal',
+  'gpt-5-low': 'low',
+  'gpt-5-medium': 'medium',
+  'gpt-5-high': 'high',
+};
+
+// Requested model -> upstream model. gpt-5-<effort> aliases also select the
+// effort. Other vendors' model names become gpt-5, unless `keepOther` (the
+// OpenAI APIs, where any name may be a real model) passes them on as given.
+export function resolveModel(
+  model: any,
+  keepOther = false
+): { model: string; effort?: string } {
+  if (typeof model !== 'string') return { model: 'gpt-5' };
+  if (EFFORT_MODELS[model])
+    return { model: 'gpt-5', effort: EFFORT_MODELS[model] };
+  if (keepOther || /^(gpt-|codex-)/.test(model)) return { model };
+  return { model: 'gpt-5' };
+}
+
+export function buildShortNameMap(names: string[]): Record<string, string> {
   const limit = 64;
   const used: Record<string, boolean> = {};
   const map: Record<string, string> = {};
@@ -51,33 +141,39 @@ function buildShortNameMap(names: string[]): Record<string, string> {
   return map;
 }
 
+// Inverse of the short-name map used for the request, so names round-trip
+export function buildReverseShortNameMap(
+  names: string[]
+): Record<string, string> {
+  const short = buildShortNameMap(names);
+  const map: Record<string, string> = {};
+  for (const n of names) map[short[n]] = n;
+  return map;
+}
+
+// Function call arguments (a JSON string) as an object; {} when malformed
+export function parseArgs(args: any): any {
+  if (typeof args !== 'string' || !args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
 export function convertChatCompletionsToResponses(payload: any) {
   const out: any = {};
   const stream = !!payload?.stream;
   out.stream = stream;
 
   // Model + reasoning
-  let model = payload?.model ?? 'gpt-5';
-  let reasoningEffort = payload?.reasoning_effort ?? 'low';
-  if (
-    model === 'gpt-5-minimal' ||
-    model === 'gpt-5-low' ||
-    model === 'gpt-5-medium' ||
-    model === 'gpt-5-high'
-  ) {
-    const mapEffort: Record<string, string> = {
-      'gpt-5-minimal': 'minimal',
-      'gpt-5-low': 'low',
-      'gpt-5-medium': 'medium',
-      'gpt-5-high': 'high',
-    };
-    reasoningEffort = mapEffort[model] || reasoningEffort;
-    model = 'gpt-5';
-  }
+  const { model, effort } = resolveModel(payload?.model, true);
   out.model = model;
-  out.reasoning = { effort: reasoningEffort };
+  out.reasoning = {
+    effort: effort ?? payload?.reasoning_effort ?? 'low',
+    summary: 'auto',
+  };
   out.parallel_tool_calls = true;
-  out.reasoning = { ...(out.reasoning || {}), summary: 'auto' };
   out.include = ['reasoning.encrypted_content'];
 
   // response_format -> text.format
@@ -133,84 +229,184 @@ export function convertChatCompletionsToResponses(payload: any) {
 
   // Instructions from system message (string or text content)
   let instructions = 'You are a helpful assistant.';
+  let instructionsMsg: any;
   const msgs: any[] = Array.isArray(payload?.messages) ? payload.messages : [];
   for (const m of msgs) {
     if (m?.role === 'system') {
       const c = m?.content;
       if (typeof c === 'string' && c) {
         instructions = c;
+        instructionsMsg = m;
         break;
       }
       if (Array.isArray(c)) {
         const t = c.find((x: any) => x?.type === 'text' && x?.text);
         if (t?.text) {
           instructions = t.text;
+          instructionsMsg = m;
           break;
         }
       }
     }
   }
 
-  // Convert messages
-  const converted: any[] = [];
-  for (const m of msgs) {
+  // Convert messages into Responses input items
+  const toolName = (name: string) =>
+    originalToolNameMap[name] || shortenNameIfNeeded(name);
+  // Text-only content (system, assistant and tool messages)
+  const textOf = (content: any, param: string): string => {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    const texts: string[] = [];
+    content.forEach((x: any, j: number) => {
+      if (x?.type === 'text' || x?.type === 'refusal') {
+        const t = x.text ?? x.refusal;
+        if (t) texts.push(t);
+      } else if (x?.type !== 'tool_result') {
+        throw new UnsupportedContentError(
+          `Content part type '${x?.type}' is not supported in this message role`,
+          `${param}[${j}]`
+        );
+      }
+    });
+    return texts.join('\n');
+  };
+  const input: any[] = [];
+  for (let i = 0; i < msgs.length; i++) {
+    const m = msgs[i];
     const role = m?.role;
-    if (role === 'system') continue;
     const content = m?.content;
-    if (typeof content === 'string') {
-      if (role === 'user') converted.push({ role: 'user', content: content });
-      else if (role === 'assistant')
-        converted.push({ role: 'assistant', content: content });
-    } else if (Array.isArray(content)) {
-      const texts = content
-        .filter((x: any) => x?.type === 'text' && x?.text)
-        .map((x: any) => x.text)
-        .join('\n');
-      if (texts) {
-        if (role === 'user') converted.push({ role: 'user', content: texts });
-        else if (role === 'assistant')
-          converted.push({ role: 'assistant', content: texts });
+    const param = `messages[${i}].content`;
+    if (role === 'system' || role === 'developer') {
+      // The first system message became `instructions`; keep the rest in order
+      if (m === instructionsMsg) continue;
+      const text = textOf(content, param);
+      if (text)
+        input.push({
+          type: 'message',
+          role: 'developer',
+          content: [{ type: 'input_text', text }],
+        });
+    } else if (role === 'user') {
+      const parts = convertUserContent(content, param);
+      if (parts.length)
+        input.push({ type: 'message', role: 'user', content: parts });
+    } else if (role === 'assistant') {
+      const text = textOf(content, param);
+      if (text)
+        input.push({
+          type: 'message',
+          role: 'assistant',
+          content: [{ type: 'output_text', text }],
+        });
+      const calls = Array.isArray(m?.tool_calls) ? m.tool_calls : [];
+      for (const tc of calls) {
+        if (tc?.type && tc.type !== 'function') continue;
+        const args = tc?.function?.arguments;
+        input.push({
+          type: 'function_call',
+          call_id: tc?.id || '',
+          name: toolName(tc?.function?.name || ''),
+          arguments:
+            typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+        });
       }
-      const tools = content.filter((x: any) => x?.type === 'tool_result');
-      for (const t of tools) {
-        const nameShort = t?.name || '';
-        const id = t?.call_id || t?.tool_call_id || '';
-        const result = t?.content || t?.output || '';
-        converted.push({
-          role: 'tool',
-          name: nameShort,
-          tool_call_id: id,
-          content: typeof result === 'string' ? result : JSON.stringify(result),
+    } else if (role === 'tool') {
+      input.push({
+        type: 'function_call_output',
+        call_id: m?.tool_call_id || '',
+        output: textOf(content, param),
+      });
+    }
+    // Non-standard tool_result parts inside array content
+    if (Array.isArray(content)) {
+      for (const t of content.filter((x: any) => x?.type === 'tool_result')) {
+        const result = t?.content ?? t?.output ?? '';
+        input.push({
+          type: 'function_call_output',
+          call_id: t?.call_id || t?.tool_call_id || '',
+          output: typeof result === 'string' ? result : JSON.stringify(result),
         });
       }
     }
   }
-  out.input_text = converted
-    .filter((x) => x.role === 'user')
-    .map((x) => x.content)
-    .join('\n');
+  out.input = input;
   out.instructions = instructions;
 
   return out;
 }
 
-function buildReverseMapFromOpenAI(original: any): Record<string, string> {
-  const map: Record<string, string> = {};
+// Legacy Completions -> Responses: prompt (and optional suffix) become a
+// single user turn, everything else is mapped like a chat request
+export function convertCompletionsToResponses(payload: any) {
+  let prompt = payload?.prompt ?? '';
+  if (Array.isArray(prompt)) {
+    if (prompt.length > 1 || (prompt.length && typeof prompt[0] !== 'string'))
+      throw new UnsupportedContentError(
+        'Only a single string prompt is supported (no batches or token arrays)',
+        'prompt'
+      );
+    prompt = prompt[0] ?? '';
+  }
+  if (typeof prompt !== 'string')
+    throw new UnsupportedContentError('prompt must be a string', 'prompt');
+  const suffix = typeof payload?.suffix === 'string' ? payload.suffix : '';
+  const messages = suffix
+    ? [
+        { role: 'system', content: INSERTION_INSTRUCTIONS },
+        {
+          role: 'user',
+          content: `<prefix>${prompt}</prefix>\n<suffix>${suffix}</suffix>`,
+        },
+      ]
+    : [
+        { role: 'system', content: COMPLETION_INSTRUCTIONS },
+        { role: 'user', content: prompt },
+      ];
+  const { prompt: _p, suffix: _s, ...rest } = payload || {};
+  return convertChatCompletionsToResponses({ ...rest, messages });
+}
+
+// Short tool name -> name in the request's function tools
+export function buildReverseMapFromOpenAI(original: any): Record<string, string> {
+  const names: string[] = [];
   const tools = Array.isArray(original?.tools) ? original.tools : [];
   for (const t of tools) {
-    if (t?.type === 'function' && t?.function?.name) {
-      const name = t.function.name;
-      const short = shortenNameIfNeeded(name);
-      map[short] = name;
-    }
+    if (t?.type === 'function' && t?.function?.name) names.push(t.function.name);
   }
-  return map;
+  return buildReverseShortNameMap(names);
+}
+
+// Per-stream state for mapResponsesLineToChat. fnIdx is the last tool call
+// index handed out; id is the upstream response id; calls maps an upstream function_call item id to its index
+// and whether argument deltas were already streamed for it. includeUsage
+// mirrors stream_options.include_usage (chunks then carry usage: null).
+export type ChatStreamState = {
+  id?: string;
+  fnIdx?: number;
+  calls?: Record<string, { index: number; streamed: boolean }>;
+  includeUsage?: boolean;
+};
+
+// Responses usage -> Chat Completions usage
+function chatUsageFromResponses(usage: any) {
+  return {
+    prompt_tokens: usage?.input_tokens,
+    completion_tokens: usage?.output_tokens,
+    total_tokens: usage?.total_tokens,
+    prompt_tokens_details: {
+      cached_tokens: usage?.input_tokens_details?.cached_tokens,
+    },
+    completion_tokens_details: {
+      reasoning_tokens: usage?.output_tokens_details?.reasoning_tokens,
+    },
+  };
 }
 
 export function mapResponsesLineToChat(
   evtLine: string,
   revMap: Record<string, string>,
-  state: { fnIdx?: number }
+  state: ChatStreamState
 ): string | undefined {
   if (!evtLine.startsWith('data: ')) return undefined;
   let evt: any;
@@ -219,8 +415,9 @@ export function mapResponsesLineToChat(
   } catch {
     return undefined;
   }
+  if (evt?.response?.id) state.id = evt.response.id;
   const base = {
-    id: evt?.response?.id || evt?.request?.id || '',
+    id: state.id || evt?.request?.id || '',
     object: 'chat.completion.chunk',
     created: (Date.now() / 1000) | 0,
     model: evt?.response?.model || 'gpt-5',
@@ -233,6 +430,7 @@ export function mapResponsesLineToChat(
       },
     ],
   } as any;
+  if (state.includeUsage) base.usage = null;
 
   switch (evt?.type) {
     case 'response.reasoning_summary_text.delta': {
@@ -247,9 +445,50 @@ export function mapResponsesLineToChat(
       base.choices[0].delta.content = evt?.delta || '';
       return JSON.stringify(base);
     }
+    case 'response.output_item.added': {
+      // First chunk of a tool call: id and name with empty arguments
+      const item = evt?.item;
+      if (item?.type !== 'function_call') return undefined;
+      state.fnIdx = (state.fnIdx ?? -1) + 1;
+      state.calls = state.calls || {};
+      state.calls[item?.id ?? '#' + evt?.output_index] = {
+        index: state.fnIdx,
+        streamed: false,
+      };
+      const nameShort = item?.name || '';
+      const name = revMap[nameShort] || nameShort;
+      base.choices[0].delta.tool_calls = [
+        {
+          index: state.fnIdx,
+          id: item?.call_id || '',
+          type: 'function',
+          function: { name, arguments: '' },
+        },
+      ];
+      return JSON.stringify(base);
+    }
+    case 'response.function_call_arguments.delta': {
+      const call = state.calls?.[evt?.item_id ?? '#' + evt?.output_index];
+      if (!call || !evt?.delta) return undefined;
+      call.streamed = true;
+      base.choices[0].delta.tool_calls = [
+        { index: call.index, function: { arguments: evt.delta } },
+      ];
+      return JSON.stringify(base);
+    }
     case 'response.output_item.done': {
       const item = evt?.item;
       if (item?.type !== 'function_call') return undefined;
+      const call = state.calls?.[item?.id ?? '#' + evt?.output_index];
+      if (call) {
+        // Announced by output_item.added: only send arguments if no deltas came
+        if (call.streamed || !item?.arguments) return undefined;
+        call.streamed = true;
+        base.choices[0].delta.tool_calls = [
+          { index: call.index, function: { arguments: item.arguments } },
+        ];
+        return JSON.stringify(base);
+      }
       state.fnIdx = (state.fnIdx ?? -1) + 1;
       const nameShort = item?.name || '';
       const name = revMap[nameShort] || nameShort;
@@ -275,6 +514,30 @@ export function mapResponsesLineToChat(
   }
 }
 
+// Final usage chunk (empty choices) for stream_options.include_usage,
+// produced from the response.completed event
+export function mapResponsesUsageToChatChunk(
+  evtLine: string
+): string | undefined {
+  if (!evtLine.startsWith('data: ')) return undefined;
+  let evt: any;
+  try {
+    evt = JSON.parse(evtLine.slice(6));
+  } catch {
+    return undefined;
+  }
+  if (evt?.type !== 'response.completed') return undefined;
+  const resp = evt.response || {};
+  return JSON.stringify({
+    id: resp.id || '',
+    object: 'chat.completion.chunk',
+    created: (Date.now() / 1000) | 0,
+    model: resp.model || 'gpt-5',
+    choices: [],
+    usage: chatUsageFromResponses(resp.usage || {}),
+  });
+}
+
 // Non-stream mapping: Responses SSE blob -> OpenAI Chat JSON
 export function convertResponsesBlobToChat(
   originalOpenAI: any,
@@ -314,14 +577,7 @@ export function convertResponsesBlobToChat(
   };
   const usage = resp.usage || {};
   if (usage) {
-    template.usage = {
-      prompt_tokens: usage.input_tokens,
-      completion_tokens: usage.output_tokens,
-      total_tokens: usage.total_tokens,
-      completion_tokens_details: {
-        reasoning_tokens: usage?.output_tokens_details?.reasoning_tokens,
-      },
-    };
+    template.usage = chatUsageFromResponses(usage);
   }
   let contentText = '';
   let reasoningText = '';
@@ -413,9 +669,13 @@ export function convertChatChunkToCompletionsChunk(
     object: 'text_completion',
     created: root.created,
     model: root.model,
-    choices: [{ index: 0, text: text ?? '', finish_reason: finish }],
+    // the include_usage chunk has no choices
+    choices:
+      Array.isArray(root.choices) && root.choices.length === 0
+        ? []
+        : [{ index: 0, text: text ?? '', finish_reason: finish }],
   };
-  if (root.usage) out.usage = root.usage;
+  if (root.usage !== undefined) out.usage = root.usage;
   return JSON.stringify(out);
 }
 
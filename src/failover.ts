@@ -0,0 +1,193 @@
+import {
+  FAILOVER_BACKOFF_BASE_MS,
+  FAILOVER_BACKOFF_MAX_MS,
+  FAILOVER_MAX_ATTEMPTS,
+  FAILOVER_REFRESH_STATUSES,
+  FAILOVER_RETRY_STATUSES,
+  FAILOVER_ROTATE_STATUSES,
+  FAILOVER_SAME_ACCOUNT_RETRIES,
+} from './config.js';
+import type { TokenRecord } from './types.js';
+import { advanceToNextUsableToken, getAccountFilter } from './selection.js';
+import type { Selection } from './selection.js';
+import { markFailure, refreshToken } from './refresh.js';
+import { getAffinity } from './affinity.js';
+import { upstreamResponsesTotal } from './metrics.js';
+
+// One failover loop for every proxy route. The route supplies `send`, which
+// makes one upstream request with a given account; the engine decides from
+// the response status what to do next:
+//   retry   - same account again, after a jittered backoff
+//   refresh - refresh the OAuth tokens and try the same account again
+//   rotate  - put the account on cooldown and move to the next usable one
+//   fail    - return the response to the client
+// Retries and refreshes that do not help fall through to rotate, and an
+// account is not rotated back to within the same request. At most
+// FAILOVER_MAX_ATTEMPTS requests are made; then the last response is returned,
+// or a 502 when the last request got no response at all.
+
+export type FailoverAction = 'retry' | 'refresh' | 'rotate' | 'fail';
+
+export type Attempt = {
+  account: string;
+  status?: number; // undefined when the request itself failed
+  error?: string;
+  action: FailoverAction | 'done';
+  ms: number;
+};
+
+export type FailoverResult = {
+  resp: Response;
+  rec: TokenRecord; // the account that produced resp
+  attempts: Attempt[];
+};
+
+// Error body in the route's API shape, for responses made by the proxy itself
+export type ErrorFormat = (
+  message: string,
+  status: number,
+  code: string
+) => object;
+
+export const openaiError: ErrorFormat = (message, _status, code) => ({
+  error: { message, type: 'server_error', param: null, code },
+});
+
+// Network errors are treated like a retry status
+export function failoverAction(status: number | undefined): FailoverAction {
+  if (status === undefined) return 'retry';
+  if (status >= 200 && status < 300) return 'fail';
+  if (FAILOVER_RETRY_STATUSES.includes(status)) return 'retry';
+  if (FAILOVER_REFRESH_STATUSES.includes(status)) return 'refresh';
+  if (FAILOVER_ROTATE_STATUSES.includes(status)) return 'rotate';
+  return 'fail';
+}
+
+// Exponential, with full jitter over the upper half
+function backoffMs(retry: number): number {
+  const cap = Math.min(
+    FAILOVER_BACKOFF_MAX_MS,
+    FAILOVER_BACKOFF_BASE_MS * 2 ** (retry - 1)
+  );
+  return Math.round(cap / 2 + (Math.random() * cap) / 2);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function describe(a: Attempt): string {
+  const outcome = a.status ?? `error (${a.error})`;
+  return `${a.account} ${outcome} ${a.action} ${a.ms}ms`;
+}
+
+// Only requests that needed more than one attempt, or did not get a response
+function logAttempts(c: any, attempts: Attempt[]) {
+  if (attempts.length < 2 && !attempts[0]?.error) return;
+  console.warn(
+    `Failover ${c.req.method} ${c.req.path}: ${attempts.map(describe).join(' -> ')}`
+  );
+}
+
+// Run `send` from the selected account, failing over as configured.
+// Undefined when there is no usable account to start with.
+export async function withFailover(
+  c: any,
+  sel: Selection,
+  send: (rec: TokenRecord) => Promise<Response>,
+  format: ErrorFormat = openaiError
+): Promise<FailoverResult | undefined> {
+  if (!sel.rec) return undefined;
+  const attempts: Attempt[] = [];
+  const budget = Math.max(1, FAILOVER_MAX_ATTEMPTS);
+  const tried = new Set<string>();
+  let current = sel.rec;
+  let retries = 0;
+  let refreshed = false;
+  // Last request failed without a response
+  const unreachable = (attempt: Attempt) =>
+    c.json(
+      format(
+        `Upstream request failed: ${attempt.error}`,
+        502,
+        'upstream_unreachable'
+      ),
+      502
+    ) as Response;
+  try {
+    while (true) {
+      tried.add(current.id);
+      const started = Date.now();
+      let resp: Response | undefined;
+      let error: unknown;
+      try {
+        resp = await send(current);
+      } catch (e) {
+        error = e;
+      }
+      const status = resp?.status;
+      let action = failoverAction(status);
+      if (action === 'retry' && retries >= FAILOVER_SAME_ACCOUNT_RETRIES)
+        action = 'rotate';
+      if (action === 'refresh' && (refreshed || current.type !== 'oauth'))
+        action = 'rotate';
+      const attempt: Attempt = {
+        account: current.id,
+        status,
+        error: error ? (error as any)?.message || String(error) : undefined,
+        action: resp?.ok ? 'done' : action,
+        ms: Date.now() - started,
+      };
+      attempts.push(attempt);
+      upstreamResponsesTotal.inc({
+        account: current.id,
+        status: status === undefined ? 'error' : String(status),
+      });
+      if (resp && (resp.ok || action === 'fail'))
+        return { resp, rec: current, attempts };
+
+      // Leaving the account: cool it down first, even if out of budget
+      if (action === 'rotate')
+        await markFailure(current, status ?? 0, resp?.headers);
+      if (attempts.length >= budget) {
+        attempt.action = 'fail';
+        return { resp: resp ?? unreachable(attempt), rec: current, attempts };
+      }
+
+      // Responses that are not returned: free their connections
+      const drop = () => resp?.body?.cancel().catch(() => {});
+      if (action === 'retry') {
+        drop();
+        retries++;
+        await sleep(backoffMs(retries));
+        continue;
+      }
+      if (action === 'refresh') {
+        refreshed = true;
+        const next = await refreshToken(current).catch(() => undefined);
+        if (next) {
+          drop();
+          current = next;
+          continue;
+        }
+        // Nothing to retry with: same as rotate
+        attempt.action = 'rotate';
+        await markFailure(current, status ?? 0, resp?.headers);
+      }
+      const next = await advanceToNextUsableToken(
+        getAffinity(c),
+        current,
+        tried,
+        getAccountFilter(c)
+      );
+      if (!next.rec) {
+        attempt.action = 'fail';
+        return { resp: resp ?? unreachable(attempt), rec: current, attempts };
+      }
+      drop();
+      current = next.rec;
+      retries = 0;
+      refreshed = false;
+    }
+  } finally {
+    logAttempts(c, attempts);
+  }
+}
@@ -0,0 +1,364 @@
+// Converters between the Gemini generateContent API and the Responses API
+
+import {
+  buildReverseShortNameMap,
+  buildShortNameMap,
+  parseArgs,
+  resolveModel,
+  UnsupportedContentError,
+} from './converters.js';
+
+// Gemini OpenAPI-style schema (upper-case types, nullable) -> JSON Schema
+function normalizeSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(normalizeSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const out: any = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (k === 'propertyOrdering' || k === 'nullable') continue;
+    if (k === 'type' && typeof v === 'string') out.type = v.toLowerCase();
+    else if (k === 'properties' && v && typeof v === 'object')
+      out.properties = Object.fromEntries(
+        Object.entries(v).map(([p, s]) => [p, normalizeSchema(s)])
+      );
+    else if (k === 'items' || k === 'anyOf') out[k] = normalizeSchema(v);
+    else out[k] = v;
+  }
+  if (schema.nullable && typeof out.type === 'string')
+    out.type = [out.type, 'null'];
+  return out;
+}
+
+function declarationsOf(payload: any): any[] {
+  const decls: any[] = [];
+  const tools = Array.isArray(payload?.tools) ? payload.tools : [];
+  tools.forEach((t: any, i: number) => {
+    const other = Object.keys(t || {}).filter(
+      (k) => k !== 'functionDeclarations'
+    );
+    if (other.length)
+      throw new UnsupportedContentError(
+        `Tool '${other[0]}' is not supported`,
+        `tools[${i}]`
+      );
+    if (Array.isArray(t.functionDeclarations))
+      decls.push(...t.functionDeclarations);
+  });
+  return decls;
+}
+
+// generateContent request -> Responses payload (model comes from the URL)
+export function convertGeminiToResponses(
+  modelName: string,
+  payload: any,
+  stream: boolean
+) {
+  const out: any = {};
+  out.stream = stream;
+  const { model, effort } = resolveModel(modelName);
+  out.model = model;
+  out.reasoning = { effort: effort || 'low', summary: 'auto' };
+  out.parallel_tool_calls = true;
+  out.include = ['reasoning.encrypted_content'];
+
+  // Function declarations
+  const decls = declarationsOf(payload);
+  const names: string[] = decls
+    .map((d: any) => d?.name)
+    .filter((n: any) => typeof n === 'string' && n);
+  const shortNames = buildShortNameMap(names);
+  const toolName = (name: string) => shortNames[name] || name;
+  if (decls.length) {
+    out.tools = decls.map((d: any) => {
+      const item: any = { type: 'function', name: toolName(d?.name || '') };
+      if (d?.description !== undefined) item.description = d.description;
+      item.parameters = d?.parametersJsonSchema ||
+        normalizeSchema(d?.parameters) || { type: 'object', properties: {} };
+      return item;
+    });
+  }
+  const fcc = payload?.toolConfig?.functionCallingConfig;
+  if (fcc?.mode === 'NONE') out.tool_choice = 'none';
+  else if (fcc?.mode === 'ANY') {
+    const allowed = Array.isArray(fcc.allowedFunctionNames)
+      ? fcc.allowedFunctionNames
+      : [];
+    out.tool_choice =
+      allowed.length === 1
+        ? { type: 'function', name: toolName(allowed[0]) }
+        : 'required';
+  }
+
+  // generationConfig.responseSchema -> text.format
+  const gc = payload?.generationConfig || {};
+  const schema = gc.responseJsonSchema || normalizeSchema(gc.responseSchema);
+  if (schema)
+    out.text = {
+      format: { type: 'json_schema', name: 'response', strict: false, schema },
+    };
+  else if (gc.responseMimeType === 'application/json')
+    out.text = { format: { type: 'json_object' } };
+
+  // systemInstruction: Content or plain string
+  const si = payload?.systemInstruction;
+  const sysText =
+    typeof si === 'string'
+      ? si
+      : (Array.isArray(si?.parts) ? si.parts : [])
+          .filter((p: any) => typeof p?.text === 'string' && p.text)
+          .map((p: any) => p.text)
+          .join('\n\n');
+  out.instructions = sysText || 'You are a helpful assistant.';
+
+  // contents -> input items. Calls without an id are matched to their
+  // responses by name, in order.
+  const pending: Record<string, string[]> = {};
+  let callSeq = 0;
+  const input: any[] = [];
+  const contents: any[] = Array.isArray(payload?.contents)
+    ? payload.contents
+    : [];
+  contents.forEach((m: any, i: number) => {
+    const role = m?.role === 'model' ? 'assistant' : 'user';
+    let parts: any[] = [];
+    const flush = () => {
+      if (parts.length) input.push({ type: 'message', role, content: parts });
+      parts = [];
+    };
+    (Array.isArray(m?.parts) ? m.parts : []).forEach((p: any, j: number) => {
+      const param = `contents[${i}].parts[${j}]`;
+      if (typeof p?.text === 'string') {
+        // Thought summaries from earlier turns are not replayed
+        if (p.text && !p.thought)
+          parts.push({
+            type: role === 'assistant' ? 'output_text' : 'input_text',
+            text: p.text,
+          });
+      } else if (p?.inlineData || p?.fileData) {
+        if (role === 'assistant')
+          throw new UnsupportedContentError(
+            'Media parts are only supported in user turns',
+            param
+          );
+        const mime = p.inlineData?.mimeType || p.fileData?.mimeType || '';
+        const url = p.inlineData
+          ? `data:${mime};base64,${p.inlineData.data}`
+          : p.fileData.fileUri;
+        if (mime.startsWith('image/'))
+          parts.push({ type: 'input_image', image_url: url });
+        else if (p.inlineData)
+          parts.push({
+            type: 'input_file',
+            filename: p.inlineData.displayName || 'file',
+            file_data: url,
+          });
+        else
+          throw new UnsupportedContentError(
+            'fileData is only supported for images; send other files as inlineData',
+            param
+          );
+      } else if (p?.functionCall) {
+        flush();
+        const name = p.functionCall.name || '';
+        const id = p.functionCall.id || `call_${++callSeq}`;
+        (pending[name] = pending[name] || []).push(id);
+        input.push({
+          type: 'function_call',
+          call_id: id,
+          name: toolName(name),
+          arguments: JSON.stringify(p.functionCall.args ?? {}),
+        });
+      } else if (p?.functionResponse) {
+        flush();
+        const name = p.functionResponse.name || '';
+        const id =
+          p.functionResponse.id || pending[name]?.shift() || `call_${name}`;
+        const response = p.functionResponse.response;
+        input.push({
+          type: 'function_call_output',
+          call_id: id,
+          output:
+            typeof response === 'string'
+              ? response
+              : JSON.stringify(response ?? {}),
+        });
+      } else {
+        throw new UnsupportedContentError(
+          `Unsupported part '${Object.keys(p || {})[0]}'`,
+          param
+        );
+      }
+    });
+    flush();
+  });
+  out.input = input;
+  return out;
+}
+
+// Short tool name -> name in the request's function declarations
+export function buildReverseMapFromGemini(
+  original: any
+): Record<string, string> {
+  let decls: any[] = [];
+  try {
+    decls = declarationsOf(original);
+  } catch {}
+  const names: string[] = decls
+    .map((d: any) => d?.name)
+    .filter((n: any) => typeof n === 'string' && n);
+  return buildReverseShortNameMap(names);
+}
+
+// Responses usage -> usageMetadata (candidates exclude thoughts, as in Gemini)
+function usageMetadata(usage: any) {
+  const prompt = Number(usage?.input_tokens) || 0;
+  const output = Number(usage?.output_tokens) || 0;
+  const thoughts = Number(usage?.output_tokens_details?.reasoning_tokens) || 0;
+  const meta: any = {
+    promptTokenCount: prompt,
+    candidatesTokenCount: Math.max(0, output - thoughts),
+    totalTokenCount: Number(usage?.total_tokens) || prompt + output,
+  };
+  const cached = Number(usage?.input_tokens_details?.cached_tokens) || 0;
+  if (cached) meta.cachedContentTokenCount = cached;
+  if (thoughts) meta.thoughtsTokenCount = thoughts;
+  return meta;
+}
+
+function finishReason(resp: any): string {
+  return resp?.incomplete_details?.reason === 'max_output_tokens'
+    ? 'MAX_TOKENS'
+    : 'STOP';
+}
+
+function functionCallPart(item: any, revMap: Record<string, string>) {
+  const fc: any = {
+    name: revMap[item?.name] || item?.name || '',
+    args: parseArgs(item?.arguments),
+  };
+  if (item?.call_id) fc.id = item.call_id;
+  return { functionCall: fc };
+}
+
+// Gemini-style error body
+export function geminiError(code: number, status: string, message: string) {
+  return { error: { code, message, status } };
+}
+
+// Google RPC status for an HTTP status
+export function geminiErrorStatus(code: number): string {
+  switch (code) {
+    case 400:
+      return 'INVALID_ARGUMENT';
+    case 401:
+      return 'UNAUTHENTICATED';
+    case 403:
+      return 'PERMISSION_DENIED';
+    case 404:
+      return 'NOT_FOUND';
+    case 429:
+      return 'RESOURCE_EXHAUSTED';
+    case 502:
+    case 503:
+      return 'UNAVAILABLE';
+    case 504:
+      return 'DEADLINE_EXCEEDED';
+    default:
+      return code >= 500 ? 'INTERNAL' : 'UNKNOWN';
+  }
+}
+
+// Non-stream mapping: Responses SSE blob -> GenerateContentResponse JSON
+export function convertResponsesBlobToGemini(
+  original: any,
+  modelName: string,
+  blob: string
+): string {
+  let completed: any;
+  for (const line of blob.split(/\r?\n/)) {
+    if (!line.startsWith('data: ')) continue;
+    try {
+      const obj = JSON.parse(line.slice(6));
+      if (obj?.type === 'response.completed') {
+        completed = obj;
+        break;
+      }
+    } catch {}
+  }
+  if (!completed)
+    return JSON.stringify(
+      geminiError(502, 'UNAVAILABLE', 'invalid_upstream_response')
+    );
+  const resp = completed.response || {};
+  const rev = buildReverseMapFromGemini(original);
+  const parts: any[] = [];
+  for (const it of Array.isArray(resp.output) ? resp.output : []) {
+    if (it?.type === 'message' && Array.isArray(it.content)) {
+      for (const part of it.content)
+        if (part?.type === 'output_text' && part.text)
+          parts.push({ text: part.text });
+    } else if (it?.type === 'function_call') {
+      parts.push(functionCallPart(it, rev));
+    }
+  }
+  return JSON.stringify({
+    candidates: [
+      {
+        content: { role: 'model', parts },
+        finishReason: finishReason(resp),
+        index: 0,
+      },
+    ],
+    usageMetadata: usageMetadata(resp.usage),
+    modelVersion: modelName,
+    responseId: resp.id || '',
+  });
+}
+
+// Per-stream state for mapResponsesLineToGemini
+export type GeminiStreamState = { id?: string };
+
+// One Responses SSE data line -> a GenerateContentResponse chunk, if any
+export function mapResponsesLineToGemini(
+  evtLine: string,
+  modelName: string,
+  revMap: Record<string, string>,
+  state: GeminiStreamState
+): any | undefined {
+  if (!evtLine.startsWith('data: ')) return undefined;
+  let evt: any;
+  try {
+    evt = JSON.parse(evtLine.slice(6));
+  } catch {
+    return undefined;
+  }
+  if (evt?.response?.id) state.id = evt.response.id;
+  const chunk = (parts: any[], extra: any = {}) => ({
+    candidates: [{ content: { role: 'model', parts }, index: 0, ...extra }],
+    modelVersion: modelName,
+    responseId: state.id || '',
+  });
+
+  switch (evt?.type) {
+    case 'response.output_text.delta':
+      return evt?.delta ? chunk([{ text: evt.delta }]) : undefined;
+    case 'response.output_item.done':
+      // Gemini streams function calls whole, so wait for the finished item
+      if (evt?.item?.type !== 'function_call') return undefined;
+      return chunk([functionCallPart(evt.item, revMap)]);
+    case 'response.completed': {
+      const resp = evt.response || {};
+      return {
+        ...chunk([{ text: '' }], { finishReason: finishReason(resp) }),
+        usageMetadata: usageMetadata(resp.usage),
+      };
+    }
+    case 'response.failed':
+      return geminiError(
+        500,
+        'INTERNAL',
+        evt?.response?.error?.message || 'Upstream response failed'
+      );
+    default:
+      return undefined;
+  }
+}
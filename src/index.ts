@@ -1,22 +1,94 @@
 import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
-import { PORT } from './config.js';
+import {
+  ADMIN_TOKEN_FILE,
+  effectiveConfig,
+  PORT,
+  STORAGE_BACKEND,
+} from './config.js';
 import { registerUi } from './routes/ui.js';
+import { registerLogin } from './routes/login.js';
 import { registerOAuth } from './routes/oauth.js';
 import { registerAccounts } from './routes/accounts.js';
+import { registerKeys } from './routes/keys.js';
+import { registerStats } from './routes/stats.js';
+import { registerMetrics } from './routes/metrics.js';
+import { registerConfig } from './routes/config.js';
 import { registerProxy } from './proxy.js';
 import { refreshDueTokens, scheduleNextRefresh } from './refresh.js';
+import { scheduleNextProbe } from './probe.js';
+import { loadAdminToken } from './admin.js';
+import { checkTokenEncryption, storageLocation } from './storage.js';
+import { keyId } from './secrets.js';
+import {
+  flushRegistry,
+  loadRegistry,
+  migrateStore,
+  reportAccountProblems,
+  scheduleRegistrySync,
+  watchRegistry,
+} from './registry.js';
 
 const app = new Hono();
 
+registerLogin(app);
 registerUi(app);
 registerOAuth(app);
 registerAccounts(app);
+registerKeys(app);
+registerStats(app);
+registerMetrics(app);
+registerConfig(app);
 registerProxy(app);
 
+const { file: configFile } = effectiveConfig();
+if (configFile) console.log(`Using configuration from ${configFile}`);
+
+// Open the store (importing the JSON files into SQLite on first start),
+// upgrade it to the current schema and refuse to start when stored secrets
+// cannot be decrypted
+try {
+  await migrateStore();
+  const { key, plaintext } = await checkTokenEncryption();
+  if (STORAGE_BACKEND !== 'json')
+    console.log(`Using ${STORAGE_BACKEND} storage at ${await storageLocation()}`);
+  if (key) {
+    console.log(`Encrypting account secrets at rest (key ${keyId(key)})`);
+    if (plaintext)
+      console.log(
+        `${plaintext} plaintext secret(s) in ${await storageLocation()} will be encrypted on the next write; run "codex-equilibrium tokens encrypt" to do it now`
+      );
+  }
+  await loadRegistry();
+  reportAccountProblems();
+} catch (e: any) {
+  console.error(`Cannot read stored accounts: ${e?.message || e}`);
+  process.exit(1);
+}
+
+// Account changes are written back lazily; flush them before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const)
+  process.once(signal, async () => {
+    await flushRegistry();
+    process.exit(0);
+  });
+
+const { source } = await loadAdminToken();
+if (source === 'generated')
+  console.log(`Generated admin token, stored in ${ADMIN_TOKEN_FILE}`);
+else if (source === 'file')
+  console.log(`Using admin token from ${ADMIN_TOKEN_FILE}`);
+
 serve({ fetch: app.fetch, port: PORT });
 console.log(`Codex Equilibrium Node server listening on http://localhost:${PORT}`);
 
 // Background refresh loop: refresh tokens close to expiry, with jitter
 refreshDueTokens();
 scheduleNextRefresh();
+
+// Health prober: bring cooling/failed accounts back early when they recover
+scheduleNextProbe();
+
+// Pick up accounts changed by other processes or edited by hand
+scheduleRegistrySync();
+await watchRegistry();
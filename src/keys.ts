@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKeyRecord } from './types.js';
+import { readApiKeys, updateApiKey } from './storage.js';
+import { maskToken } from './utils.js';
+
+// Only stamp last_used when it is older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function generateApiKey(): string {
+  return 'ce-' + randomBytes(24).toString('base64url');
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function newApiKeyRecord(
+  id: string,
+  label: string,
+  key: string
+): ApiKeyRecord {
+  return {
+    id,
+    label,
+    key_hash: hashApiKey(key),
+    prefix: maskToken(key),
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Read the client key from the incoming request (Authorization: Bearer <key>,
+// x-api-key as sent by Anthropic clients, or x-goog-api-key / ?key= as sent
+// by Gemini clients)
+export function extractClientKey(c: any): string | undefined {
+  const auth = c.req.header('Authorization') || '';
+  const m = /^Bearer\s+(.+)$/i.exec(auth.trim());
+  if (m) return m[1].trim();
+  const apiKey = c.req.header('x-api-key') || c.req.header('x-goog-api-key');
+  if (apiKey) return apiKey.trim();
+  if (c.req.path.startsWith('/v1beta/')) return c.req.query('key') || undefined;
+  return undefined;
+}
+
+function isStale(rec: ApiKeyRecord): boolean {
+  const last = rec.last_used ? Date.parse(rec.last_used) : NaN;
+  return Number.isNaN(last) || Date.now() - last > LAST_USED_RESOLUTION_MS;
+}
+
+export async function findApiKey(
+  key: string
+): Promise<ApiKeyRecord | undefined> {
+  const hash = hashApiKey(key);
+  const keys = await readApiKeys();
+  const rec = keys.find((k) => k.key_hash === hash);
+  if (!rec || !isStale(rec)) return rec;
+  // Re-checked on the stored record: another request or server may have
+  // stamped it meanwhile, and the key may have been revoked
+  return updateApiKey(rec.id, (stored) =>
+    isStale(stored) ? { ...stored, last_used: new Date().toISOString() } : stored
+  );
+}
+
+function invalidKey(c: any, provided: boolean) {
+  return c.json(
+    {
+      error: {
+        message: provided
+          ? 'Incorrect API key provided.'
+          : "You didn't provide an API key. Provide it as 'Authorization: Bearer <key>'.",
+        type: 'invalid_request_error',
+        param: null,
+        code: 'invalid_api_key',
+      },
+    },
+    401
+  );
+}
+
+// Middleware: require a valid client key; the matched record is exposed as c.get('clientKey')
+export async function requireClientKey(c: any, next: () => Promise<void>) {
+  const key = extractClientKey(c);
+  if (!key) return invalidKey(c, false);
+  let rec: ApiKeyRecord | undefined;
+  try {
+    rec = await findApiKey(key);
+  } catch (e: any) {
+    console.error(`Cannot read client keys: ${e?.message || e}`);
+    return c.json(
+      {
+        error: {
+          message: 'Client keys cannot be read; see the server log.',
+          type: 'server_error',
+          param: null,
+          code: 'client_keys_unavailable',
+        },
+      },
+      500
+    );
+  }
+  if (!rec) return invalidKey(c, true);
+  c.set('clientKey', rec);
+  await next();
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { LOCK_DIR } from './config.js';
+
+// Cross-process locks for processes sharing AUTH_DIR. A lock is a file in
+// LOCK_DIR created with O_EXCL; a lock older than its ttl is considered
+// abandoned (its owner crashed) and may be taken over, so holders must finish
+// well within the ttl.
+
+const POLL_MS = 50;
+
+export type Release = () => Promise<void>;
+
+function lockPath(name: string) {
+  return path.join(LOCK_DIR, name + '.lock');
+}
+
+// Remove an abandoned lock. Several processes may find the same stale lock,
+// and one of them may already have replaced it with its own by the time
+// another acts, so the file is first renamed to a name unique to this attempt
+// (only one rename can get a given file) and the owner checked afterwards: a
+// live lock taken by mistake is linked back in place.
+async function removeIfStale(file: string, ttlMs: number) {
+  let owner: string;
+  try {
+    owner = await fs.readFile(file, 'utf8');
+    const st = await fs.stat(file);
+    if (Date.now() - st.mtimeMs <= ttlMs) return;
+  } catch {
+    return;
+  }
+  const aside = `${file}.${randomUUID()}.stale`;
+  try {
+    await fs.rename(file, aside);
+  } catch {
+    return;
+  }
+  try {
+    if ((await fs.readFile(aside, 'utf8')) !== owner)
+      await fs.link(aside, file).catch(() => {});
+  } finally {
+    await fs.unlink(aside).catch(() => {});
+  }
+}
+
+// Take the lock if it is free; undefined when another owner holds it
+export async function tryLock(
+  name: string,
+  ttlMs: number
+): Promise<Release | undefined> {
+  const file = lockPath(name);
+  const owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+  await fs.mkdir(LOCK_DIR, { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await fs.writeFile(file, owner, { flag: 'wx' });
+      return async () => {
+        try {
+          // Only remove the lock if it was not taken over in the meantime
+          if ((await fs.readFile(file, 'utf8')) === owner) await fs.unlink(file);
+        } catch {}
+      };
+    } catch (e: any) {
+      if (e?.code !== 'EEXIST') throw e;
+      await removeIfStale(file, ttlMs);
+    }
+  }
+  return undefined;
+}
+
+// Wait until the lock is free (or abandoned), without taking it
+export async function waitForUnlock(name: string, ttlMs: number) {
+  const file = lockPath(name);
+  const deadline = Date.now() + ttlMs;
+  while (Date.now() < deadline) {
+    try {
+      await fs.access(file);
+    } catch {
+      return;
+    }
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  }
+}
+
+// Run fn while holding the lock, waiting for it as long as needed
+export async function withLock<T>(
+  name: string,
+  ttlMs: number,
+  fn: () => Promise<T>
+): Promise<T> {
+  let release: Release | undefined;
+  while (!(release = await tryLock(name, ttlMs)))
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
@@ -0,0 +1,183 @@
+// Minimal Prometheus metrics registry (text exposition format 0.0.4)
+
+type Labels = Record<string, string>;
+
+const PREFIX = 'codex_equilibrium_';
+
+function labelKey(labels: Labels): string {
+  const keys = Object.keys(labels).sort();
+  if (!keys.length) return '';
+  const esc = (v: string) =>
+    v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return '{' + keys.map((k) => `${k}="${esc(labels[k])}"`).join(',') + '}';
+}
+
+function withLabel(key: string, extra: string): string {
+  if (!key) return '{' + extra + '}';
+  return key.slice(0, -1) + ',' + extra + '}';
+}
+
+class Counter {
+  private values = new Map<string, number>();
+  constructor(readonly name: string, readonly help: string) {}
+  inc(labels: Labels = {}, v = 1) {
+    const k = labelKey(labels);
+    this.values.set(k, (this.values.get(k) || 0) + v);
+  }
+  render(): string[] {
+    const out = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [k, v] of this.values) out.push(`${this.name}${k} ${v}`);
+    return out;
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[]
+  ) {}
+  observe(labels: Labels, v: number) {
+    const k = labelKey(labels);
+    let s = this.series.get(k);
+    if (!s) {
+      s = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(k, s);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (v <= this.buckets[i]) s.counts[i]++;
+    }
+    s.sum += v;
+    s.count++;
+  }
+  render(): string[] {
+    const out = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const [k, s] of this.series) {
+      this.buckets.forEach((b, i) =>
+        out.push(`${this.name}_bucket${withLabel(k, `le="${b}"`)} ${s.counts[i]}`)
+      );
+      out.push(`${this.name}_bucket${withLabel(k, 'le="+Inf"')} ${s.count}`);
+      out.push(`${this.name}_sum${k} ${s.sum}`);
+      out.push(`${this.name}_count${k} ${s.count}`);
+    }
+    return out;
+  }
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const requestsTotal = new Counter(
+  PREFIX + 'requests_total',
+  'Proxied requests by route and the status returned to the client.'
+);
+export const upstreamResponsesTotal = new Counter(
+  PREFIX + 'upstream_responses_total',
+  'Upstream attempts by account and upstream status ("error" without a response).'
+);
+export const requestDuration = new Histogram(
+  PREFIX + 'request_duration_seconds',
+  'Time until response headers are sent, by route and response status.',
+  LATENCY_BUCKETS
+);
+export const streamTtfb = new Histogram(
+  PREFIX + 'stream_ttfb_seconds',
+  'Time until the first byte of an SSE response body, by route.',
+  LATENCY_BUCKETS
+);
+export const failoversTotal = new Counter(
+  PREFIX + 'failovers_total',
+  'Switches to the next usable account after a failure, by result.'
+);
+export const refreshTotal = new Counter(
+  PREFIX + 'token_refresh_total',
+  'OAuth token refresh attempts, by result.'
+);
+export const probesTotal = new Counter(
+  PREFIX + 'health_probes_total',
+  'Health probes of cooling or failed accounts, by result.'
+);
+
+// Explicit routes keep their path as label; everything else is the catch-all
+const KNOWN_ROUTES = new Set([
+  '/v1/responses',
+  '/v1/chat/completions',
+  '/v1/completions',
+  '/v1/messages',
+  '/v1/models',
+]);
+
+// Gemini routes carry the model in the path; label them by method only
+const GEMINI_ROUTE = /^\/v1beta\/models\/[^/]+:(generateContent|streamGenerateContent)$/;
+
+export function routeLabel(path: string): string {
+  if (KNOWN_ROUTES.has(path)) return path;
+  const m = GEMINI_ROUTE.exec(path);
+  if (m) return '/v1beta/models/*:' + m[1];
+  return path.startsWith('/v1beta/') ? '/v1beta/*' : '/v1/*';
+}
+
+// Middleware: request count/latency for proxied routes plus time-to-first-byte for SSE
+export async function trackMetrics(c: any, next: () => Promise<void>) {
+  const started = performance.now();
+  await next();
+  const route = routeLabel(c.req.path);
+  const labels = { route, status: String(c.res.status) };
+  requestsTotal.inc(labels);
+  requestDuration.observe(labels, (performance.now() - started) / 1000);
+
+  const res: Response = c.res;
+  if (!res.body || !res.headers.get('Content-Type')?.includes('text/event-stream'))
+    return;
+  const reader = res.body.getReader();
+  let first = true;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      if (first) {
+        first = false;
+        streamTtfb.observe({ route }, (performance.now() - started) / 1000);
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  c.res = new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+}
+
+// Render all metrics; gauges computed at scrape time are passed in by the caller
+export function renderMetrics(
+  gauges: { name: string; help: string; values: [Labels, number][] }[]
+): string {
+  const lines: string[] = [];
+  for (const m of [
+    requestsTotal,
+    upstreamResponsesTotal,
+    requestDuration,
+    streamTtfb,
+    failoversTotal,
+    refreshTotal,
+    probesTotal,
+  ])
+    lines.push(...m.render());
+  for (const g of gauges) {
+    const name = PREFIX + g.name;
+    lines.push(`# HELP ${name} ${g.help}`, `# TYPE ${name} gauge`);
+    for (const [labels, v] of g.values)
+      lines.push(`${name}${labelKey(labels)} ${v}`);
+  }
+  return lines.join('\n') + '\n';
+}
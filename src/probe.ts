@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import {
+  CHATGPT_ENDPOINT,
+  PROBE_BACKOFF_BASE_MS,
+  PROBE_BACKOFF_MAX_MS,
+  PROBE_INTERVAL_MS,
+} from './config.js';
+import type { ProbeResult, TokenRecord } from './types.js';
+import { listAccounts, patchAccount } from './registry.js';
+import { isCoolingDown } from './utils.js';
+import { refreshToken } from './refresh.js';
+import { probesTotal } from './metrics.js';
+import { recordRateLimits, waitingForReset } from './ratelimit.js';
+
+// Active health probing: cooling or failed accounts get a minimal request so
+// they come back as soon as the upstream accepts them again, instead of
+// waiting out the full cooldown.
+
+const PROBE_HISTORY = 10;
+const PROBE_TIMEOUT_MS = 30 * 1000;
+
+// One short turn with minimal reasoning; the body is not read
+const PROBE_PAYLOAD = JSON.stringify({
+  model: 'gpt-5',
+  instructions: 'Reply with OK.',
+  input: [
+    {
+      type: 'message',
+      role: 'user',
+      content: [{ type: 'input_text', text: 'ping' }],
+    },
+  ],
+  reasoning: { effort: 'minimal' },
+  stream: true,
+});
+
+function sendProbe(rec: TokenRecord): Promise<Response> {
+  const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+  // Relays: listing models is free
+  if (rec.type === 'relay') {
+    const base = (rec.base_url || '').replace(/\/+$/, '');
+    return fetch(base + '/models', {
+      headers: { Authorization: `Bearer ${rec.api_key || ''}` },
+      signal,
+    });
+  }
+  const headers = new Headers({
+    Authorization: `Bearer ${rec.access_token || ''}`,
+    'Openai-Beta': 'responses=experimental',
+    'Content-Type': 'application/json',
+    Version: '0.21.0',
+    Session_id: randomUUID(),
+    Originator: 'codex_cli_rs',
+    Accept: 'text/event-stream',
+  });
+  if (rec.account_id) headers.set('Chatgpt-Account-Id', rec.account_id);
+  return fetch(`${CHATGPT_ENDPOINT}/responses`, {
+    method: 'POST',
+    headers,
+    body: PROBE_PAYLOAD,
+    signal,
+  });
+}
+
+// Probe one account and record the outcome: success clears the cooldown and
+// failure count, failure pushes the cooldown out with exponential backoff
+export async function probeAccount(rec: TokenRecord): Promise<ProbeResult> {
+  const started = Date.now();
+  let status: number | undefined;
+  let error: string | undefined;
+  try {
+    let resp = await sendProbe(rec);
+    if (
+      (resp.status === 401 || resp.status === 403) &&
+      rec.type !== 'relay'
+    ) {
+      await resp.body?.cancel();
+      const refreshed = await refreshToken(rec);
+      if (refreshed) {
+        rec = refreshed;
+        resp = await sendProbe(rec);
+      }
+    }
+    status = resp.status;
+    if (rec.type !== 'relay') await recordRateLimits(rec, resp.headers);
+    await resp.body?.cancel();
+  } catch (e: any) {
+    error = e?.message || String(e);
+  }
+
+  const now = Date.now();
+  const ok = status !== undefined && status >= 200 && status < 300;
+  const result: ProbeResult = {
+    ts: new Date(now).toISOString(),
+    ok,
+    status,
+    error,
+    latency_ms: now - started,
+  };
+  probesTotal.inc({ result: ok ? 'success' : 'failure' });
+  const probes = [result, ...(rec.probes || [])].slice(0, PROBE_HISTORY);
+
+  if (ok) {
+    patchAccount(rec.id, {
+      cooldown_until: undefined,
+      fail_count: 0,
+      last_error_code: undefined,
+      probe_failures: 0,
+      next_probe_at: undefined,
+      probes,
+    });
+    return result;
+  }
+
+  const failures = (rec.probe_failures || 0) + 1;
+  const backoff = Math.min(
+    PROBE_BACKOFF_MAX_MS,
+    PROBE_BACKOFF_BASE_MS * 2 ** Math.min(failures - 1, 30)
+  );
+  const next = now + backoff;
+  const current = rec.cooldown_until ? Date.parse(rec.cooldown_until) : NaN;
+  patchAccount(rec.id, {
+    cooldown_until: new Date(
+      Number.isNaN(current) ? next : Math.max(current, next)
+    ).toISOString(),
+    last_error_code: status ?? rec.last_error_code,
+    probe_failures: failures,
+    next_probe_at: new Date(next).toISOString(),
+    probes,
+  });
+  return result;
+}
+
+function needsProbe(rec: TokenRecord, now: number): boolean {
+  if (rec.disabled) return false;
+  if (!isCoolingDown(rec) && !(rec.fail_count && rec.fail_count > 0))
+    return false;
+  if (rec.next_probe_at && Date.parse(rec.next_probe_at) > now) return false;
+  // The upstream already said when it will accept the account again
+  if (waitingForReset(rec, now)) return false;
+  return rec.type === 'relay' ? !!rec.base_url : !!rec.access_token;
+}
+
+let probing = false;
+
+export async function probeDueAccounts() {
+  if (probing) return;
+  probing = true;
+  try {
+    const now = Date.now();
+    for (const rec of listAccounts()) {
+      if (needsProbe(rec, now)) await probeAccount(rec);
+    }
+  } catch {
+  } finally {
+    probing = false;
+  }
+}
+
+export function scheduleNextProbe() {
+  if (PROBE_INTERVAL_MS <= 0) return;
+  setTimeout(async () => {
+    await probeDueAccounts();
+    scheduleNextProbe();
+  }, PROBE_INTERVAL_MS);
+}
@@ -1,16 +1,49 @@
 import { Hono } from 'hono';
 import { CHATGPT_ENDPOINT } from './config.js';
 import type { TokenRecord } from './types.js';
-import { advanceToNextUsableToken, selectNextToken } from './selection.js';
-import { markFailure, refreshToken } from './refresh.js';
+import { selectNextToken, setAccountFilter } from './selection.js';
+import { recordRateLimits } from './ratelimit.js';
+import { withFailover } from './failover.js';
+import { noUsableAccount, selectOrWait } from './queue.js';
+import type { ErrorFormat, FailoverResult } from './failover.js';
 import {
+  buildReverseMapFromOpenAI,
   convertChatChunkToCompletionsChunk,
   convertChatCompletionsToResponses,
   convertChatToCompletions,
+  convertCompletionsToResponses,
   convertResponsesBlobToChat,
   mapResponsesLineToChat,
+  mapResponsesUsageToChatChunk,
+  UnsupportedContentError,
 } from './converters.js';
-import { randomUUID } from 'crypto';
+import type { ChatStreamState } from './converters.js';
+import {
+  buildReverseMapFromMessages,
+  convertMessagesToResponses,
+  convertResponsesBlobToMessage,
+  mapResponsesLineToMessages,
+  messagesError,
+  messagesErrorType,
+} from './anthropic.js';
+import type { MessagesStreamState } from './anthropic.js';
+import {
+  buildReverseMapFromGemini,
+  convertGeminiToResponses,
+  convertResponsesBlobToGemini,
+  geminiError,
+  geminiErrorStatus,
+  mapResponsesLineToGemini,
+} from './gemini.js';
+import type { GeminiStreamState } from './gemini.js';
+import { requireClientKey } from './keys.js';
+import { setServingAccount, tapUsage, trackUsage } from './usage.js';
+import { trackMetrics } from './metrics.js';
+import {
+  affinityKey,
+  setAffinity,
+  upstreamSessionId,
+} from './affinity.js';
 
 function wantStream(payload: any): boolean {
   try {
@@ -24,601 +57,522 @@ function isRelay(rec: TokenRecord | undefined): boolean {
   return !!rec && rec.type === 'relay';
 }
 
+// Relays speak the OpenAI API only; the Messages and Gemini routes skip them
+const oauthOnly = (t: TokenRecord) => !isRelay(t);
+
+// Proxy errors (no account, upstream unreachable) and upstream errors in the
+// Messages and Gemini API shapes
+const messagesFormat: ErrorFormat = (message, status) =>
+  messagesError(messagesErrorType(status), message);
+const geminiFormat: ErrorFormat = (message, status) =>
+  geminiError(status, geminiErrorStatus(status), message);
+
+// OpenAI-style 400 for request content the conversion cannot represent
+function invalidContent(c: any, e: UnsupportedContentError) {
+  return c.json(
+    {
+      error: {
+        message: e.message,
+        type: 'invalid_request_error',
+        param: e.param,
+        code: 'unsupported_content',
+      },
+    },
+    400
+  );
+}
+
+// Client headers to pass upstream. Content-Length is dropped since bodies are
+// re-serialized (a stale length stalls fetch), Host and Connection are per hop.
+// x-api-key and x-goog-api-key carry the client key and must not leak upstream.
+function forwardHeaders(c: any): Headers {
+  const headers = new Headers(c.req.raw.headers);
+  headers.delete('Content-Length');
+  headers.delete('x-api-key');
+  headers.delete('x-goog-api-key');
+  headers.delete('Host');
+  headers.delete('Connection');
+  return headers;
+}
+
 function joinBase(base: string, path: string): string {
   const b = base.replace(/\/+$/, '');
   return b + path;
 }
 
-async function forwardResponses(c: any, payload: any) {
-  const url = `${CHATGPT_ENDPOINT}/responses`;
-  const stream = wantStream(payload);
-  const body = JSON.stringify(payload);
-  const tryOnce = async (token: TokenRecord) => {
-    const upstreamHeaders = new Headers(c.req.raw.headers);
-    upstreamHeaders.set('Authorization', `Bearer ${token.access_token!}`);
-    upstreamHeaders.set('Openai-Beta', 'responses=experimental');
-    upstreamHeaders.set('Content-Type', 'application/json');
-    upstreamHeaders.set('Version', '0.21.0');
-    upstreamHeaders.set('Session_id', randomUUID());
-    if (token.account_id)
-      upstreamHeaders.set('Chatgpt-Account-Id', token.account_id);
-    upstreamHeaders.set('Originator', 'codex_cli_rs');
-    upstreamHeaders.set(
-      'Accept',
-      stream ? 'text/event-stream' : 'application/json'
-    );
-    return fetch(url, { method: 'POST', headers: upstreamHeaders, body });
-  };
+// Served by GET /v1/models unless the request goes to a relay
+const MODELS = {
+  object: 'list',
+  data: [
+    { id: 'gpt-5', object: 'model' },
+    { id: 'gpt-5-minimal', object: 'model' },
+    { id: 'gpt-5-low', object: 'model' },
+    { id: 'gpt-5-medium', object: 'model' },
+    { id: 'gpt-5-high', object: 'model' },
+    { id: 'codex-mini-latest', object: 'model' },
+  ],
+};
 
-  const { rec: first, total } = await selectNextToken();
-  if (!first)
-    return c.json(
-      { error: 'No usable accounts (all disabled, cooling down or expired)' },
-      503
-    );
+// Pass an upstream response on to the client; successful streams are marked
+// as SSE, everything else defaults to JSON
+function passThrough(resp: Response, stream: boolean): Response {
+  const headers = new Headers(resp.headers);
+  if (stream && resp.ok) {
+    headers.set('Cache-Control', 'no-cache');
+    headers.set('Connection', 'keep-alive');
+    if (!headers.get('Content-Type')?.includes('text/event-stream'))
+      headers.set('Content-Type', 'text/event-stream');
+  } else if (!headers.get('Content-Type')?.includes('application/json')) {
+    headers.set('Content-Type', 'application/json');
+  }
+  return new Response(resp.body, {
+    status: resp.status,
+    statusText: resp.statusText,
+    headers,
+  });
+}
 
-  let current = first;
-  let triedAccounts = 0;
-  while (triedAccounts < (total || 1)) {
-    let resp = await tryOnce(current);
-    if (resp.ok) {
-      if (stream) {
-        const headers = new Headers(resp.headers);
-        headers.set('Cache-Control', 'no-cache');
-        headers.set('Connection', 'keep-alive');
-        if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-          headers.set('Content-Type', 'text/event-stream');
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-      const headers = new Headers(resp.headers);
-      if (!headers.get('Content-Type')?.includes('application/json')) {
-        headers.set('Content-Type', 'application/json');
-      }
-      return new Response(resp.body, {
-        status: resp.status,
-        statusText: resp.statusText,
-        headers,
-      });
-    }
+// An upstream error answered in the route's API shape: the message is taken
+// from the upstream body, the status and Retry-After are kept
+async function upstreamError(
+  c: any,
+  resp: Response,
+  format: ErrorFormat
+): Promise<Response> {
+  const text = await resp.text().catch(() => '');
+  let message = text.trim();
+  let code = 'upstream_error';
+  try {
+    const body = JSON.parse(text);
+    const m = body?.error?.message ?? body?.detail ?? body?.message;
+    if (typeof m === 'string' && m) message = m;
+    if (typeof body?.error?.code === 'string') code = body.error.code;
+  } catch {}
+  if (!message) message = `Upstream request failed with status ${resp.status}`;
+  const headers: Record<string, string> = {};
+  const retryAfter = resp.headers.get('Retry-After');
+  if (retryAfter) headers['Retry-After'] = retryAfter;
+  return c.json(format(message, resp.status, code), resp.status, headers);
+}
 
-    // Retry once on same account if potentially transient
-    if (
-      resp.status === 408 ||
-      resp.status === 500 ||
-      resp.status === 502 ||
-      resp.status === 503 ||
-      resp.status === 504
-    ) {
-      resp = await tryOnce(current);
-      if (resp.ok) {
-        if (stream) {
-          const headers = new Headers(resp.headers);
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
-          }
-          return new Response(resp.body, {
-            status: resp.status,
-            statusText: resp.statusText,
-            headers,
-          });
-        }
-        const headers = new Headers(resp.headers);
-        if (!headers.get('Content-Type')?.includes('application/json')) {
-          headers.set('Content-Type', 'application/json');
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-    }
+// One request to the Codex backend with an OAuth account
+async function sendCodex(
+  c: any,
+  rec: TokenRecord,
+  path: string,
+  method: string,
+  body: string | undefined,
+  stream: boolean
+): Promise<Response> {
+  setServingAccount(c, rec);
+  const headers = forwardHeaders(c);
+  headers.set('Authorization', `Bearer ${rec.access_token!}`);
+  headers.set('Openai-Beta', 'responses=experimental');
+  headers.set('Content-Type', 'application/json');
+  headers.set('Version', '0.21.0');
+  headers.set('Session_id', upstreamSessionId(c));
+  if (rec.account_id) headers.set('Chatgpt-Account-Id', rec.account_id);
+  headers.set('Originator', 'codex_cli_rs');
+  headers.set('Accept', stream ? 'text/event-stream' : 'application/json');
+  const resp = await fetch(`${CHATGPT_ENDPOINT}${path}`, {
+    method,
+    headers,
+    body,
+  });
+  await recordRateLimits(rec, resp.headers);
+  return resp;
+}
 
-    if (
-      !(resp.status === 429 ||
-      resp.status === 401 ||
-      resp.status === 403 ||
-      resp.status === 408 ||
-      resp.status === 500 ||
-      resp.status === 502 ||
-      resp.status === 503 ||
-      resp.status === 504)
-    ) {
-      const headers = new Headers(resp.headers);
-      if (stream) {
-        headers.set('Cache-Control', 'no-cache');
-        headers.set('Connection', 'keep-alive');
-        if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-          headers.set('Content-Type', 'text/event-stream');
-        }
-      } else {
-        if (!headers.get('Content-Type')?.includes('application/json')) {
-          headers.set('Content-Type', 'application/json');
-        }
-      }
-      return new Response(resp.body, {
-        status: resp.status,
-        statusText: resp.statusText,
-        headers,
-      });
-    }
+// One request passed through to a relay account unchanged
+async function sendRelay(
+  c: any,
+  rec: TokenRecord,
+  path: string,
+  method: string,
+  body: string | undefined,
+  stream: boolean
+): Promise<Response> {
+  setServingAccount(c, rec);
+  const headers = forwardHeaders(c);
+  headers.set('Authorization', `Bearer ${rec.api_key || ''}`);
+  headers.set('Content-Type', 'application/json');
+  headers.set('Accept', stream ? 'text/event-stream' : 'application/json');
+  return fetch(joinBase(rec.base_url || '', path), { method, headers, body });
+}
+
+// Serve a request made in another API's shape from the pool, failing over
+// across accounts: OAuth accounts get it converted to a Responses request,
+// relays get it unchanged at `relay.path`. Without `relay` (APIs relays do
+// not speak) only OAuth accounts are used. Content the conversion cannot
+// represent is answered by `unsupported` (a 400, so it is not retried).
+async function forwardConverted(
+  c: any,
+  original: any,
+  relay: { path: string; stream: boolean } | undefined,
+  convert: () => any,
+  unsupported: (e: UnsupportedContentError) => Response,
+  format?: ErrorFormat
+): Promise<FailoverResult | undefined> {
+  let converted: any;
+  let invalid: UnsupportedContentError | undefined;
+  try {
+    converted = convert();
+  } catch (e) {
+    if (!(e instanceof UnsupportedContentError)) throw e;
+    invalid = e;
+  }
+  const relayBody = JSON.stringify(original);
+  const codexBody = converted && JSON.stringify(converted);
+  if (!relay) setAccountFilter(c, oauthOnly);
+  const sel = await selectOrWait(c);
+  return withFailover(
+    c,
+    sel,
+    async (rec) => {
+      if (relay && isRelay(rec))
+        return sendRelay(c, rec, relay.path, 'POST', relayBody, relay.stream);
+      if (invalid) return unsupported(invalid);
+      return sendCodex(c, rec, '/responses', 'POST', codexBody, !!converted.stream);
+    },
+    format
+  );
+}
+
+// Answer a successful Responses reply in Chat Completions shapes
+// (chat.completion / chat.completion.chunk), or with `legacy` in the
+// text_completion shapes of /v1/completions
+async function respondAsChat(
+  c: any,
+  original: any,
+  upstream: Response,
+  legacy: boolean
+) {
+  const stream = !!original?.stream;
+  if (!stream) {
+    const text = await upstream.text();
+    const chat = convertResponsesBlobToChat(original, text);
+    return new Response(legacy ? convertChatToCompletions(chat) : chat, {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-    // Try refresh (if possible), then try again
-    const refreshed = await refreshToken(current);
-    if (refreshed) {
-      current = refreshed;
-      resp = await tryOnce(current);
-      if (resp.ok) {
-        if (stream) {
-          const headers = new Headers(resp.headers);
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
+  // Tap the upstream Responses stream: the chunks sent to the client may carry no usage
+  const resp = tapUsage(c, upstream);
+  const revMap = buildReverseMapFromOpenAI(original);
+  const includeUsage = !!original?.stream_options?.include_usage;
+  const encoder = new TextEncoder();
+  const streamOut = new ReadableStream({
+    async start(controller) {
+      const reader = (resp.body as any).getReader();
+      const decoder = new TextDecoder();
+      let buf = '';
+      let state: ChatStreamState = { includeUsage };
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const parts = buf.split(/\n\n/);
+        buf = parts.pop() || '';
+        for (const p of parts) {
+          // An SSE block may carry an `event:` line before its data line
+          const s = p.split(/\r?\n/).find((l) => l.startsWith('data: '));
+          if (!s) continue;
+          const mapped = mapResponsesLineToChat(s, revMap, state);
+          const usage = includeUsage
+            ? mapResponsesUsageToChatChunk(s)
+            : undefined;
+          for (const chunk of [mapped, usage]) {
+            if (!chunk) continue;
+            const out = legacy
+              ? convertChatChunkToCompletionsChunk(chunk)
+              : chunk;
+            if (out) controller.enqueue(encoder.encode('data: ' + out + '\n\n'));
           }
-          return new Response(resp.body, {
-            status: resp.status,
-            statusText: resp.statusText,
-            headers,
-          });
         }
-        const headers = new Headers(resp.headers);
-        if (!headers.get('Content-Type')?.includes('application/json')) {
-          headers.set('Content-Type', 'application/json');
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
       }
-    }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  const outHeaders = new Headers(resp.headers);
+  outHeaders.set('Content-Type', 'text/event-stream');
+  outHeaders.set('Cache-Control', 'no-cache');
+  outHeaders.set('Connection', 'keep-alive');
+  return new Response(streamOut, {
+    status: resp.status,
+    headers: outHeaders,
+  });
+}
 
-    // Final failure on this account → mark + cooldown and switch to next
-    await markFailure(current, resp.status);
-    triedAccounts++;
-    const sel = await advanceToNextUsableToken();
-    if (!sel.rec) {
-      if (stream) {
-        const headers = new Headers(resp.headers);
-        headers.set('Cache-Control', 'no-cache');
-        headers.set('Connection', 'keep-alive');
-        if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-          headers.set('Content-Type', 'text/event-stream');
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-      const headers = new Headers(resp.headers);
-      if (!headers.get('Content-Type')?.includes('application/json')) {
-        headers.set('Content-Type', 'application/json');
-      }
-      return new Response(resp.body, {
-        status: resp.status,
-        statusText: resp.statusText,
-        headers,
-      });
-    }
-    current = sel.rec;
+// Answer a successful Responses reply in Anthropic Messages shapes
+async function respondAsMessages(c: any, original: any, upstream: Response) {
+  const stream = !!original?.stream;
+  // Tap the upstream body: the Messages usage shape is not parsed by tapUsage
+  const resp = tapUsage(c, upstream);
+  if (!stream) {
+    const text = await resp.text();
+    return new Response(convertResponsesBlobToMessage(original, text), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
 
-  // Fallback
-  return c.json(
-    { error: 'No usable accounts (all disabled, cooling down or expired)' },
-    503
-  );
+  const revMap = buildReverseMapFromMessages(original);
+  const encoder = new TextEncoder();
+  const streamOut = new ReadableStream({
+    async start(controller) {
+      const reader = (resp.body as any).getReader();
+      const decoder = new TextDecoder();
+      let buf = '';
+      const state: MessagesStreamState = {};
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const parts = buf.split(/\n\n/);
+        buf = parts.pop() || '';
+        for (const p of parts) {
+          const s = p.split(/\r?\n/).find((l) => l.startsWith('data: '));
+          if (!s) continue;
+          for (const evt of mapResponsesLineToMessages(s, original, revMap, state))
+            controller.enqueue(encoder.encode(evt));
+        }
+      }
+      controller.close();
+    },
+  });
+  const outHeaders = new Headers(resp.headers);
+  outHeaders.set('Content-Type', 'text/event-stream');
+  outHeaders.set('Cache-Control', 'no-cache');
+  outHeaders.set('Connection', 'keep-alive');
+  return new Response(streamOut, {
+    status: resp.status,
+    headers: outHeaders,
+  });
 }
 
-// Robust streaming fetch to Responses endpoint with retry/switch logic
-async function robustResponsesStreamFetch(
+// Answer a successful Responses reply with GenerateContentResponse objects:
+// one JSON object, or when streaming either SSE (alt=sse) or a streamed JSON
+// array like the Gemini REST API
+async function respondAsGemini(
   c: any,
-  bodyString: string
-): Promise<Response | undefined> {
-  const url = `${CHATGPT_ENDPOINT}/responses`;
-  const { rec: first, total } = await selectNextToken();
-  if (!first) return undefined;
-  const maxAttempts = Math.min(total, 3) || 1;
-
-  const tryOnce = async (token: TokenRecord) => {
-    const headers = new Headers(c.req.raw.headers);
-    headers.set('Authorization', `Bearer ${token.access_token!}`);
-    headers.set('Openai-Beta', 'responses=experimental');
-    headers.set('Content-Type', 'application/json');
-    headers.set('Version', '0.21.0');
-    headers.set('Session_id', randomUUID());
-    if (token.account_id) headers.set('Chatgpt-Account-Id', token.account_id);
-    headers.set('Originator', 'codex_cli_rs');
-    headers.set('Accept', 'text/event-stream');
-    return fetch(url, { method: 'POST', headers, body: bodyString });
-  };
-
-  let current = first;
-  let resp = await tryOnce(current);
-  if (resp.status === 401 || resp.status === 403) {
-    const refreshed = await refreshToken(current);
-    if (refreshed) {
-      current = refreshed;
-      resp = await tryOnce(current);
-    }
-  }
-  const retriable = (code: number) =>
-    code === 429 ||
-    code === 403 ||
-    code === 408 ||
-    code === 500 ||
-    code === 502 ||
-    code === 503 ||
-    code === 504;
-  let attempts = 1;
-  while (attempts < maxAttempts && retriable(resp.status)) {
-    await markFailure(current, resp.status);
-    const sel = await selectNextToken();
-    if (!sel.rec) break;
-    current = sel.rec;
-    resp = await tryOnce(current);
-    attempts++;
+  original: any,
+  modelName: string,
+  stream: boolean,
+  upstream: Response
+) {
+  // Tap the upstream body: usageMetadata is not parsed by tapUsage
+  const resp = tapUsage(c, upstream);
+  if (!stream) {
+    const text = await resp.text();
+    return new Response(
+      convertResponsesBlobToGemini(original, modelName, text),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
   }
-  return resp;
+
+  const sse = c.req.query('alt') === 'sse';
+  const revMap = buildReverseMapFromGemini(original);
+  const encoder = new TextEncoder();
+  const streamOut = new ReadableStream({
+    async start(controller) {
+      const reader = (resp.body as any).getReader();
+      const decoder = new TextDecoder();
+      let buf = '';
+      let sent = 0;
+      const state: GeminiStreamState = {};
+      if (!sse) controller.enqueue(encoder.encode('['));
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const parts = buf.split(/\n\n/);
+        buf = parts.pop() || '';
+        for (const p of parts) {
+          const s = p.split(/\r?\n/).find((l) => l.startsWith('data: '));
+          if (!s) continue;
+          const chunk = mapResponsesLineToGemini(s, modelName, revMap, state);
+          if (!chunk) continue;
+          const json = JSON.stringify(chunk);
+          controller.enqueue(
+            encoder.encode(
+              sse ? 'data: ' + json + '\r\n\r\n' : (sent ? ',\r\n' : '') + json
+            )
+          );
+          sent++;
+        }
+      }
+      if (!sse) controller.enqueue(encoder.encode(']'));
+      controller.close();
+    },
+  });
+  const outHeaders = new Headers(resp.headers);
+  outHeaders.set('Content-Type', sse ? 'text/event-stream' : 'application/json');
+  outHeaders.set('Cache-Control', 'no-cache');
+  outHeaders.set('Connection', 'keep-alive');
+  return new Response(streamOut, {
+    status: resp.status,
+    headers: outHeaders,
+  });
 }
 
 export function registerProxy(app: Hono) {
+  app.use('/v1/*', trackMetrics);
+  // Every /v1/* route requires a client key issued via /keys
+  app.use('/v1/*', requireClientKey);
+  // Token usage is recorded against the account set via setServingAccount
+  app.use('/v1/*', trackUsage);
+  // Same chain for the Gemini-style routes
+  app.use('/v1beta/*', trackMetrics, requireClientKey, trackUsage);
+
   // POST /v1/responses (stream and non-stream)
   app.post('/v1/responses', async (c) => {
     const payload = await c.req.json();
-    const { rec: first } = await selectNextToken();
-    if (isRelay(first)) {
-      const stream = wantStream(payload);
-      const url = joinBase(first!.base_url || '', '/responses');
-      const headers = new Headers(c.req.raw.headers);
-      headers.set('Authorization', `Bearer ${first!.api_key || ''}`);
-      headers.set('Content-Type', 'application/json');
-      headers.set('Accept', stream ? 'text/event-stream' : 'application/json');
-      const resp = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
-      });
-      const outHeaders = new Headers(resp.headers);
-      if (stream) {
-        outHeaders.set('Cache-Control', 'no-cache');
-        outHeaders.set('Connection', 'keep-alive');
-        if (!outHeaders.get('Content-Type')?.includes('text/event-stream')) {
-          outHeaders.set('Content-Type', 'text/event-stream');
-        }
-      } else {
-        if (!outHeaders.get('Content-Type')?.includes('application/json')) {
-          outHeaders.set('Content-Type', 'application/json');
-        }
-      }
-      return new Response(resp.body, {
-        status: resp.status,
-        statusText: resp.statusText,
-        headers: outHeaders,
-      });
-    }
-    return forwardResponses(c, payload);
+    setAffinity(c, affinityKey(c, payload));
+    const stream = wantStream(payload);
+    const body = JSON.stringify(payload);
+    const sel = await selectOrWait(c);
+    const result = await withFailover(c, sel, (rec) =>
+      isRelay(rec)
+        ? sendRelay(c, rec, '/responses', 'POST', body, stream)
+        : sendCodex(c, rec, '/responses', 'POST', body, stream)
+    );
+    if (!result) return noUsableAccount(c);
+    return passThrough(result.resp, stream);
   });
 
   // GET /v1/models - forward to relay if active; otherwise serve static list
   app.get('/v1/models', async (c) => {
-    const { rec: first } = await selectNextToken();
-    if (isRelay(first)) {
-      const url = joinBase(first!.base_url || '', '/models');
-      const headers = new Headers(c.req.raw.headers);
-      headers.set('Authorization', `Bearer ${first!.api_key || ''}`);
-      const resp = await fetch(url, { method: 'GET', headers });
-      const outHeaders = new Headers(resp.headers);
-      if (!outHeaders.get('Content-Type')?.includes('application/json')) {
-        outHeaders.set('Content-Type', 'application/json');
-      }
-      return new Response(resp.body, { status: resp.status, headers: outHeaders });
-    }
-    return c.json({
-      object: 'list',
-      data: [
-        { id: 'gpt-5', object: 'model' },
-        { id: 'gpt-5-minimal', object: 'model' },
-        { id: 'gpt-5-low', object: 'model' },
-        { id: 'gpt-5-medium', object: 'model' },
-        { id: 'gpt-5-high', object: 'model' },
-        { id: 'codex-mini-latest', object: 'model' },
-      ],
+    const sel = await selectNextToken();
+    if (!isRelay(sel.rec)) return c.json(MODELS);
+    const result = await withFailover(c, sel, async (rec) => {
+      // Failed over to an OAuth account
+      if (!isRelay(rec)) return c.json(MODELS);
+      const headers = forwardHeaders(c);
+      headers.set('Authorization', `Bearer ${rec.api_key || ''}`);
+      return fetch(joinBase(rec.base_url || '', '/models'), {
+        method: 'GET',
+        headers,
+      });
     });
+    if (!result) return noUsableAccount(c);
+    return passThrough(result.resp, false);
   });
 
   app.post('/v1/chat/completions', async (c) => {
     const original = await c.req.json();
-    const { rec: first } = await selectNextToken();
-    if (isRelay(first)) {
-      const stream = !!original?.stream;
-      const url = joinBase(first!.base_url || '', '/chat/completions');
-      const headers = new Headers(c.req.raw.headers);
-      headers.set('Authorization', `Bearer ${first!.api_key || ''}`);
-      headers.set('Content-Type', 'application/json');
-      headers.set('Accept', stream ? 'text/event-stream' : 'application/json');
-      const resp = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(original),
-      });
-      const outHeaders = new Headers(resp.headers);
-      if (stream) {
-        outHeaders.set('Cache-Control', 'no-cache');
-        outHeaders.set('Connection', 'keep-alive');
-        if (!outHeaders.get('Content-Type')?.includes('text/event-stream')) {
-          outHeaders.set('Content-Type', 'text/event-stream');
-        }
-      } else {
-        if (!outHeaders.get('Content-Type')?.includes('application/json')) {
-          outHeaders.set('Content-Type', 'application/json');
-        }
-      }
-      return new Response(resp.body, {
-        status: resp.status,
-        statusText: resp.statusText,
-        headers: outHeaders,
-      });
-    }
-    const converted = convertChatCompletionsToResponses(original);
-    const stream = !!original?.stream;
+    setAffinity(c, affinityKey(c, original));
+    const result = await forwardConverted(
+      c,
+      original,
+      { path: '/chat/completions', stream: wantStream(original) },
+      () => convertChatCompletionsToResponses(original),
+      (e) => invalidContent(c, e)
+    );
+    if (!result) return noUsableAccount(c);
+    if (isRelay(result.rec) || !result.resp.ok)
+      return passThrough(result.resp, wantStream(original));
+    return respondAsChat(c, original, result.resp, false);
+  });
 
-    if (stream) {
-      const resp = await robustResponsesStreamFetch(c, JSON.stringify(converted));
-      if (!resp)
-        return c.json(
-          { error: 'No usable accounts (all disabled, cooling down or expired)' },
-          503
-        );
-      if (!(resp.status >= 200 && resp.status < 300)) {
-        return resp;
-      }
-      const originalChat = original;
-      const revMap: Record<string, string> = {};
-      const streamOut = new ReadableStream({
-        async start(controller) {
-          const reader = (resp.body as any).getReader();
-          const decoder = new TextDecoder();
-          let buf = '';
-          let state: { fnIdx?: number } = {};
-          while (true) {
-            const { value, done } = await reader.read();
-            if (done) break;
-            buf += decoder.decode(value, { stream: true });
-            const parts = buf.split(/\n\n/);
-            buf = parts.pop() || '';
-            for (const p of parts) {
-              const s = p.trim();
-              if (!s) continue;
-              const mapped = mapResponsesLineToChat(s, revMap, state);
-              if (mapped) {
-                const comp = convertChatChunkToCompletionsChunk(mapped);
-                if (comp) {
-                  const line = 'data: ' + comp + '\n\n';
-                  controller.enqueue(new TextEncoder().encode(line));
-                }
-              }
-            }
-          }
-          controller.close();
-        },
-      });
-      const outHeaders = new Headers(resp.headers);
-      outHeaders.set('Content-Type', 'text/event-stream');
-      outHeaders.set('Cache-Control', 'no-cache');
-      outHeaders.set('Connection', 'keep-alive');
-      return new Response(streamOut, {
-        status: resp.status,
-        headers: outHeaders,
-      });
-    } else {
-      const res = await forwardResponses(c, converted);
-      const text = await (res as any).text();
-      const chat = convertResponsesBlobToChat(original, text);
-      const comp = convertChatToCompletions(chat);
-      return new Response(comp, {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+  // Legacy completions: prompt (+ suffix) in, text_completion objects out
+  app.post('/v1/completions', async (c) => {
+    const original = await c.req.json();
+    setAffinity(c, affinityKey(c, original));
+    const result = await forwardConverted(
+      c,
+      original,
+      { path: '/completions', stream: wantStream(original) },
+      () => convertCompletionsToResponses(original),
+      (e) => invalidContent(c, e)
+    );
+    if (!result) return noUsableAccount(c);
+    if (isRelay(result.rec) || !result.resp.ok)
+      return passThrough(result.resp, wantStream(original));
+    return respondAsChat(c, original, result.resp, true);
+  });
+
+  // Anthropic Messages API on top of the same account pool
+  app.post('/v1/messages', async (c) => {
+    const original = await c.req.json();
+    setAffinity(c, affinityKey(c, original));
+    const result = await forwardConverted(
+      c,
+      original,
+      undefined,
+      () => convertMessagesToResponses(original),
+      (e) =>
+        c.json(
+          messagesError('invalid_request_error', `${e.param}: ${e.message}`),
+          400
+        ),
+      messagesFormat
+    );
+    if (!result) return noUsableAccount(c, messagesFormat);
+    if (!result.resp.ok)
+      return upstreamError(c, result.resp, messagesFormat);
+    return respondAsMessages(c, original, result.resp);
+  });
+
+  // Gemini generateContent / streamGenerateContent: the model and method
+  // share the last path segment (`gemini-2.5-pro:generateContent`)
+  app.post('/v1beta/models/:action', async (c) => {
+    const action = c.req.param('action');
+    const sep = action.lastIndexOf(':');
+    const modelName = action.slice(0, sep);
+    const method = action.slice(sep + 1);
+    if (
+      sep <= 0 ||
+      (method !== 'generateContent' && method !== 'streamGenerateContent')
+    )
+      return c.json(
+        geminiError(404, 'NOT_FOUND', `Unknown method '${method}'`),
+        404
+      );
+    const original = await c.req.json();
+    setAffinity(c, affinityKey(c, original));
+    const stream = method === 'streamGenerateContent';
+    const result = await forwardConverted(
+      c,
+      original,
+      undefined,
+      () => convertGeminiToResponses(modelName, original, stream),
+      (e) =>
+        c.json(
+          geminiError(400, 'INVALID_ARGUMENT', `${e.param}: ${e.message}`),
+          400
+        ),
+      geminiFormat
+    );
+    if (!result) return noUsableAccount(c, geminiFormat);
+    if (!result.resp.ok) return upstreamError(c, result.resp, geminiFormat);
+    return respondAsGemini(c, original, modelName, stream, result.resp);
   });
 
   app.all('/v1/*', async (c) => {
     const targetPath = c.req.path.slice('/v1'.length);
-    const url = `${CHATGPT_ENDPOINT}${targetPath}`;
+    const method = c.req.method;
 
+    // The body is kept as text so it can be sent again on failover
     let stream = false;
-    let body: any;
-    if (c.req.method === 'POST') {
+    let body: string | undefined;
+    if (method === 'POST') {
+      body = await c.req.text();
       try {
-        const text = await c.req.text();
-        body = text;
-        const json = JSON.parse(text);
+        const json = JSON.parse(body);
         stream = !!json?.stream;
-      } catch {
-        body = (c.req.raw as Request).body;
-      }
-    } else {
-      body = undefined;
-    }
-    const tryOnce = async (token: TokenRecord) => {
-      const upstreamHeaders = new Headers(c.req.raw.headers);
-      if (token.type === 'relay') {
-        const relayUrl = joinBase(token.base_url || '', targetPath);
-        upstreamHeaders.set('Authorization', `Bearer ${token.api_key || ''}`);
-        upstreamHeaders.set('Content-Type', 'application/json');
-        upstreamHeaders.set('Accept', stream ? 'text/event-stream' : 'application/json');
-        return fetch(relayUrl, {
-          method: c.req.method,
-          headers: upstreamHeaders,
-          body,
-        });
-      } else {
-        upstreamHeaders.set('Authorization', `Bearer ${token.access_token!}`);
-        upstreamHeaders.set('Openai-Beta', 'responses=experimental');
-        upstreamHeaders.set('Content-Type', 'application/json');
-        upstreamHeaders.set('Version', '0.21.0');
-        upstreamHeaders.set('Session_id', randomUUID());
-        if (token.account_id)
-          upstreamHeaders.set('Chatgpt-Account-Id', token.account_id);
-        upstreamHeaders.set('Originator', 'codex_cli_rs');
-        upstreamHeaders.set(
-          'Accept',
-          stream ? 'text/event-stream' : 'application/json'
-        );
-        return fetch(url, { method: c.req.method, headers: upstreamHeaders, body });
-      }
-    };
-
-    const { rec: first, total } = await selectNextToken();
-    if (!first)
-      return c.json(
-        { error: 'No usable accounts (all disabled, cooling down or expired)' },
-        503
-      );
-
-    const shouldRetry = (code: number) =>
-      code === 429 ||
-      code === 401 ||
-      code === 403 ||
-      code === 408 ||
-      code === 500 ||
-      code === 502 ||
-      code === 503 ||
-      code === 504;
-
-    let current = first;
-    let triedAccounts = 0;
-    while (triedAccounts < (total || 1)) {
-      let resp = await tryOnce(current);
-      if (resp.ok) {
-        const headers = new Headers(resp.headers);
-        if (stream) {
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
-          }
-        } else {
-          if (!headers.get('Content-Type')?.includes('application/json')) {
-            headers.set('Content-Type', 'application/json');
-          }
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-
-      if (!shouldRetry(resp.status)) {
-        const headers = new Headers(resp.headers);
-        if (stream) {
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
-          }
-        } else {
-          if (!headers.get('Content-Type')?.includes('application/json')) {
-            headers.set('Content-Type', 'application/json');
-          }
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-
-      // One retry on the same account
-      resp = await tryOnce(current);
-      if (resp.ok) {
-        const headers = new Headers(resp.headers);
-        if (stream) {
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
-          }
-        } else {
-          if (!headers.get('Content-Type')?.includes('application/json')) {
-            headers.set('Content-Type', 'application/json');
-          }
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-
-      // Try refresh (oauth only), then try again
-      if (current.type !== 'relay') {
-        const refreshed = await refreshToken(current);
-        if (refreshed) {
-          current = refreshed;
-          resp = await tryOnce(current);
-          if (resp.ok) {
-            const headers = new Headers(resp.headers);
-            if (stream) {
-              headers.set('Cache-Control', 'no-cache');
-              headers.set('Connection', 'keep-alive');
-              if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-                headers.set('Content-Type', 'text/event-stream');
-              }
-            } else {
-              if (!headers.get('Content-Type')?.includes('application/json')) {
-                headers.set('Content-Type', 'application/json');
-              }
-            }
-            return new Response(resp.body, {
-              status: resp.status,
-              statusText: resp.statusText,
-              headers,
-            });
-          }
-        }
-      }
-
-      // Final failure on this account → mark cooldown and switch to next
-      await markFailure(current, resp.status);
-      triedAccounts++;
-      const sel = await advanceToNextUsableToken();
-      if (!sel.rec) {
-        const headers = new Headers(resp.headers);
-        if (stream) {
-          headers.set('Cache-Control', 'no-cache');
-          headers.set('Connection', 'keep-alive');
-          if (!headers.get('Content-Type')?.includes('text/event-stream')) {
-            headers.set('Content-Type', 'text/event-stream');
-          }
-        } else {
-          if (!headers.get('Content-Type')?.includes('application/json')) {
-            headers.set('Content-Type', 'application/json');
-          }
-        }
-        return new Response(resp.body, {
-          status: resp.status,
-          statusText: resp.statusText,
-          headers,
-        });
-      }
-      current = sel.rec;
+        setAffinity(c, affinityKey(c, json));
+      } catch {}
     }
 
-    return c.json(
-      { error: 'No usable accounts (all disabled, cooling down or expired)' },
-      503
+    const sel = await selectOrWait(c);
+    const result = await withFailover(c, sel, (rec) =>
+      isRelay(rec)
+        ? sendRelay(c, rec, targetPath, method, body, stream)
+        : sendCodex(c, rec, targetPath, method, body, stream)
     );
+    if (!result) return noUsableAccount(c);
+    return passThrough(result.resp, stream);
   });
 }
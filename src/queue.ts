@@ -0,0 +1,120 @@
+import { QUEUE_MAX_SIZE, QUEUE_MAX_WAIT_MS } from './config.js';
+import type { TokenRecord } from './types.js';
+import {
+  getAccountFilter,
+  selectNextToken,
+  unavailableReason,
+} from './selection.js';
+import type { Selection, UnavailableReason } from './selection.js';
+import { activeStrategy, listAccounts } from './registry.js';
+import { getAffinity } from './affinity.js';
+import { openaiError } from './failover.js';
+import type { ErrorFormat } from './failover.js';
+
+// Requests that find no usable account either wait for one (when the soonest
+// cooldown ends within QUEUE_MAX_WAIT_MS and fewer than QUEUE_MAX_SIZE are
+// waiting already) or get a 503 with Retry-After and the reason each account
+// is unavailable. Routes that restrict their accounts (see AccountFilter) only
+// wait for, and report on, the accounts they may use.
+
+// Selection is retried at least this often while waiting, so accounts freed
+// early (by a probe, or enabled through the API) are picked up
+const POLL_MS = 1000;
+
+let waiting = 0;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function queuedRequests(): number {
+  return waiting;
+}
+
+// Earliest time an account becomes usable by its cooldown ending
+function soonestRelease(list: TokenRecord[]): number | undefined {
+  let soonest: number | undefined;
+  for (const t of list) {
+    if (unavailableReason(t) !== 'cooldown') continue;
+    const until = Date.parse(t.cooldown_until!);
+    if (soonest === undefined || until < soonest) soonest = until;
+  }
+  return soonest;
+}
+
+// Accounts the request may be served by
+function eligibleAccounts(c: any): TokenRecord[] {
+  const accept = getAccountFilter(c);
+  const list = listAccounts();
+  return accept ? list.filter(accept) : list;
+}
+
+// Select an account for the request, waiting for one if configured to
+export async function selectOrWait(c: any): Promise<Selection> {
+  const select = () => selectNextToken(getAffinity(c), getAccountFilter(c));
+  let sel = await select();
+  if (sel.rec || QUEUE_MAX_WAIT_MS <= 0) return sel;
+  const deadline = Date.now() + QUEUE_MAX_WAIT_MS;
+  const release = soonestRelease(eligibleAccounts(c));
+  if (release === undefined || release > deadline) return sel;
+  if (waiting >= QUEUE_MAX_SIZE) {
+    c.set('queueFull', true);
+    return sel;
+  }
+  const signal: AbortSignal | undefined = c.req.raw.signal;
+  waiting++;
+  try {
+    while (!sel.rec && !signal?.aborted) {
+      const now = Date.now();
+      const next = soonestRelease(eligibleAccounts(c));
+      // Cooldowns extended past the deadline (or gone without freeing one)
+      if (now >= deadline || next === undefined || next > deadline) break;
+      await sleep(Math.min(POLL_MS, Math.max(next - now, 0), deadline - now));
+      sel = await select();
+    }
+  } finally {
+    waiting--;
+  }
+  return sel;
+}
+
+export type UnavailableAccount = {
+  id: string;
+  type: TokenRecord['type'];
+  name?: string;
+  reason?: UnavailableReason;
+  cooldown_until?: string;
+  last_error_code?: number;
+};
+
+// 503 for a request no account could serve. `format` gives the error body in
+// the route's API shape (OpenAI by default); the breakdown is added as
+// `accounts`.
+export function noUsableAccount(c: any, format: ErrorFormat = openaiError) {
+  const list = eligibleAccounts(c);
+  const strategy = activeStrategy();
+  const accounts: UnavailableAccount[] = list.map((t) => ({
+    id: t.id,
+    type: t.type,
+    name: t.type === 'relay' ? t.name : t.email,
+    reason: unavailableReason(t, strategy),
+    cooldown_until: t.cooldown_until,
+    last_error_code: t.last_error_code,
+  }));
+  let message = 'No usable accounts (all disabled, cooling down or expired)';
+  if (!list.length)
+    message = listAccounts().length
+      ? 'No accounts configured that can serve this route'
+      : 'No accounts configured';
+  else if (c.get('queueFull'))
+    message = 'No usable accounts and the wait queue is full';
+  const headers: Record<string, string> = {};
+  const release = soonestRelease(list);
+  if (release !== undefined)
+    headers['Retry-After'] = String(
+      Math.max(1, Math.ceil((release - Date.now()) / 1000))
+    );
+  return c.json(
+    { ...format(message, 503, 'no_usable_accounts'), accounts },
+    503,
+    headers
+  );
+}
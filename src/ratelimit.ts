@@ -0,0 +1,107 @@
+import type { RateLimitInfo, RateLimitWindow, TokenRecord } from './types.js';
+import { patchAccount } from './registry.js';
+
+function num(v: string | null): number | undefined {
+  if (v == null || v.trim() === '') return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Retry-After: delay in seconds or an HTTP date -> absolute time (ms)
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const secs = num(value);
+  if (secs !== undefined) return secs >= 0 ? now + secs * 1000 : undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+function parseWindow(
+  headers: Headers,
+  name: 'primary' | 'secondary',
+  now: number
+): RateLimitWindow | undefined {
+  const used = num(headers.get(`x-codex-${name}-used-percent`));
+  if (used === undefined) return undefined;
+  const w: RateLimitWindow = { used_percent: used };
+  const minutes = num(headers.get(`x-codex-${name}-window-minutes`));
+  if (minutes !== undefined) w.window_minutes = minutes;
+  const reset = num(headers.get(`x-codex-${name}-reset-after-seconds`));
+  if (reset !== undefined && reset >= 0)
+    w.resets_at = new Date(now + reset * 1000).toISOString();
+  return w;
+}
+
+// Rate-limit info from upstream response headers, if any is present
+export function parseRateLimits(
+  headers: Headers,
+  now = Date.now()
+): RateLimitInfo | undefined {
+  const primary = parseWindow(headers, 'primary', now);
+  const secondary = parseWindow(headers, 'secondary', now);
+  const retryAfter = parseRetryAfter(headers.get('retry-after'), now);
+  if (!primary && !secondary && retryAfter === undefined) return undefined;
+  const info: RateLimitInfo = { observed_at: new Date(now).toISOString() };
+  if (primary) info.primary = primary;
+  if (secondary) info.secondary = secondary;
+  if (retryAfter !== undefined)
+    info.retry_after = new Date(retryAfter).toISOString();
+  return info;
+}
+
+// When the account may be used again according to the upstream, if it says:
+// Retry-After wins; on 429 the latest reset of an exhausted window, else the
+// earliest reset reported
+export function limitedUntil(
+  info: RateLimitInfo | undefined,
+  code: number
+): number | undefined {
+  if (!info) return undefined;
+  if (info.retry_after) return Date.parse(info.retry_after);
+  if (code !== 429) return undefined;
+  const windows = [info.primary, info.secondary].filter(
+    (w): w is RateLimitWindow => !!w?.resets_at
+  );
+  const resets = (ws: RateLimitWindow[]) =>
+    ws.map((w) => Date.parse(w.resets_at!)).filter((t) => !Number.isNaN(t));
+  const exhausted = resets(windows.filter((w) => w.used_percent >= 100));
+  if (exhausted.length) return Math.max(...exhausted);
+  const any = resets(windows);
+  return any.length ? Math.min(...any) : undefined;
+}
+
+// The upstream named a future time for the account to come back (Retry-After
+// or an exhausted usage window); probing before then cannot succeed
+export function waitingForReset(rec: TokenRecord, now = Date.now()): boolean {
+  const rl = rec.rate_limits;
+  if (!rl) return false;
+  const future = (s?: string) => !!s && Date.parse(s) > now;
+  if (future(rl.retry_after)) return true;
+  return [rl.primary, rl.secondary].some(
+    (w) => !!w && w.used_percent >= 100 && future(w.resets_at)
+  );
+}
+
+// Percent of the tightest reported usage window still available. Windows whose
+// reset time has passed no longer count; unknown usage counts as 100.
+export function headroomPercent(rec: TokenRecord, now = Date.now()): number {
+  let used = 0;
+  for (const w of [rec.rate_limits?.primary, rec.rate_limits?.secondary]) {
+    if (!w) continue;
+    const reset = w.resets_at ? Date.parse(w.resets_at) : NaN;
+    if (!Number.isNaN(reset) && reset <= now) continue;
+    used = Math.max(used, w.used_percent);
+  }
+  return Math.max(0, 100 - used);
+}
+
+// Keep the latest limits reported for an account (successful responses too)
+export async function recordRateLimits(rec: TokenRecord, headers: Headers) {
+  const info = parseRateLimits(headers);
+  if (!info) return;
+  rec.rate_limits = info;
+  patchAccount(rec.id, { rate_limits: info });
+}
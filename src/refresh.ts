@@ -1,21 +1,77 @@
-import { OPENAI_CLIENT_ID, OPENAI_TOKEN_URL } from './config.js';
+import {
+  FAILURE_COOLDOWN_MS,
+  OPENAI_CLIENT_ID,
+  OPENAI_TOKEN_URL,
+  REFRESH_AUTH_COOLDOWN_MS,
+  REFRESH_BACKOFF_MAX_MS,
+  REFRESH_INTERVAL_MS,
+  REFRESH_JITTER_MS,
+  REFRESH_NEAR_EXPIRY_MS,
+  REFRESH_RATE_LIMIT_COOLDOWN_MS,
+} from './config.js';
 import type { TokenRecord } from './types.js';
 import { decodeJwtPayload, isNearExpiry, parseExpireSeconds } from './utils.js';
-import { readTokens, updateRecord } from './storage.js';
+import {
+  flushRegistry,
+  listAccounts,
+  reloadAccount,
+  replaceAccount,
+} from './registry.js';
+import { tryLock, waitForUnlock } from './lock.js';
+import { refreshTotal } from './metrics.js';
+import { limitedUntil, parseRateLimits } from './ratelimit.js';
 
-const refreshing = new Set<string>();
+// Refreshes running in this process, by account id
+const refreshing = new Map<string, Promise<TokenRecord | undefined>>();
 
+// OpenAI rotates refresh tokens, so two processes redeeming the same one can
+// lose the account. A cross-process lease per account serialises refreshes;
+// it must outlive the token request.
+const REFRESH_TIMEOUT_MS = 30 * 1000;
+const REFRESH_LEASE_TTL_MS = 2 * REFRESH_TIMEOUT_MS;
+
+// Refresh the account's OAuth tokens; the updated record, or undefined when
+// the refresh failed. Callers that find a refresh of the account already
+// running get its result.
 export async function refreshToken(
   rec: TokenRecord
 ): Promise<TokenRecord | undefined> {
   if (!rec.refresh_token) return undefined;
-  if (refreshing.has(rec.id)) return undefined;
-  refreshing.add(rec.id);
+  const running = refreshing.get(rec.id);
+  if (running) return running;
+  const id = rec.id;
+  const refresh = redeemRefreshToken(rec).finally(() =>
+    refreshing.delete(id)
+  );
+  refreshing.set(id, refresh);
+  return refresh;
+}
+
+async function redeemRefreshToken(
+  rec: TokenRecord
+): Promise<TokenRecord | undefined> {
+  const lease = `refresh-${rec.id}`;
+  let release: (() => Promise<void>) | undefined;
   try {
+    release = await tryLock(lease, REFRESH_LEASE_TTL_MS);
+    if (!release) {
+      // Another process is refreshing: use the tokens it stores
+      await waitForUnlock(lease, REFRESH_LEASE_TTL_MS);
+      const current = await reloadAccount(rec.id);
+      return current && current.refresh_token !== rec.refresh_token
+        ? current
+        : undefined;
+    }
+    // Start from the stored record: the refresh token may have been rotated
+    // by another process since this copy was read
+    const current = await reloadAccount(rec.id);
+    if (!current?.refresh_token) return undefined;
+    if (current.refresh_token !== rec.refresh_token) return current;
+    rec = current;
     const body = new URLSearchParams({
       client_id: OPENAI_CLIENT_ID,
       grant_type: 'refresh_token',
-      refresh_token: rec.refresh_token,
+      refresh_token: current.refresh_token,
       scope: 'openid profile email',
     });
     const resp = await fetch(OPENAI_TOKEN_URL, {
@@ -25,8 +81,10 @@ export async function refreshToken(
         Accept: 'application/json',
       },
       body: body.toString(),
+      signal: AbortSignal.timeout(REFRESH_TIMEOUT_MS),
     });
     if (!resp.ok) {
+      refreshTotal.inc({ result: 'failure' });
       // mark failure + cooldown
       const code = resp.status;
       const updatedFail: TokenRecord = {
@@ -35,8 +93,9 @@ export async function refreshToken(
         fail_count: (rec.fail_count || 0) + 1,
       };
       let cooldownMs = 0;
-      if (code === 429) cooldownMs = 30 * 60 * 1000;
-      else if (code === 401 || code === 403) cooldownMs = 10 * 60 * 1000;
+      if (code === 429) cooldownMs = REFRESH_RATE_LIMIT_COOLDOWN_MS;
+      else if (code === 401 || code === 403)
+        cooldownMs = REFRESH_AUTH_COOLDOWN_MS;
       else if (
         code === 408 ||
         code === 500 ||
@@ -46,7 +105,7 @@ export async function refreshToken(
       ) {
         const fc = updatedFail.fail_count || 1;
         cooldownMs = Math.min(
-          30 * 60 * 1000,
+          REFRESH_BACKOFF_MAX_MS,
           (1 << Math.min(fc, 5)) * 60 * 1000
         );
       }
@@ -54,7 +113,7 @@ export async function refreshToken(
         updatedFail.cooldown_until = new Date(
           Date.now() + cooldownMs
         ).toISOString();
-      await updateRecord(updatedFail);
+      replaceAccount(updatedFail);
       return undefined;
     }
     const json: any = await resp.json();
@@ -73,15 +132,22 @@ export async function refreshToken(
       last_error_code: undefined,
       cooldown_until: undefined,
     };
-    await updateRecord(updated);
+    replaceAccount(updated);
+    // Store the rotated tokens before other processes may refresh again
+    await flushRegistry();
+    refreshTotal.inc({ result: 'success' });
     return updated;
+  } catch (e) {
+    refreshTotal.inc({ result: 'failure' });
+    throw e;
   } finally {
-    refreshing.delete(rec.id);
+    await release?.();
   }
 }
 
 export function computeCooldownMs(code: number, _failCount: number): number {
-  // Enforce 3-hour cooldown on persistent failures (429 and other retriable errors)
+  // Enforce the failure cooldown (cooldown.failure, default 3h) on persistent
+  // failures (429 and other retriable errors)
   if (
     code === 429 ||
     code === 401 ||
@@ -92,32 +158,53 @@ export function computeCooldownMs(code: number, _failCount: number): number {
     code === 503 ||
     code === 504
   ) {
-    return 3 * 60 * 60 * 1000; // 3 hours
+    return FAILURE_COOLDOWN_MS;
   }
   return 0;
 }
 
-export async function markFailure(rec: TokenRecord, code: number) {
+// Put the account on cooldown after a failed upstream response. When the
+// response headers say when the account is usable again (Retry-After, Codex
+// rate-limit resets), that time is used instead of computeCooldownMs.
+export async function markFailure(
+  rec: TokenRecord,
+  code: number,
+  headers?: Headers
+) {
   const fc = (rec.fail_count || 0) + 1;
-  const cooldownMs = computeCooldownMs(code, fc);
+  const limits = headers ? parseRateLimits(headers) : undefined;
+  const until = limitedUntil(limits, code);
+  let cooldownUntil = rec.cooldown_until;
+  if (until !== undefined && !Number.isNaN(until))
+    cooldownUntil = new Date(until).toISOString();
+  else {
+    const cooldownMs = computeCooldownMs(code, fc);
+    if (cooldownMs > 0)
+      cooldownUntil = new Date(Date.now() + cooldownMs).toISOString();
+  }
   const updated: TokenRecord = {
     ...rec,
     fail_count: fc,
     last_error_code: code,
-    cooldown_until:
-      cooldownMs > 0
-        ? new Date(Date.now() + cooldownMs).toISOString()
-        : rec.cooldown_until,
+    cooldown_until: cooldownUntil,
+    // Windows missing from this response keep their last reported values
+    rate_limits: limits
+      ? {
+          primary: rec.rate_limits?.primary,
+          secondary: rec.rate_limits?.secondary,
+          ...limits,
+        }
+      : rec.rate_limits,
   };
-  await updateRecord(updated);
+  replaceAccount(updated);
 }
 
 export async function refreshDueTokens() {
   try {
-    const list = await readTokens();
+    const list = listAccounts();
     for (const rec of list) {
       if (rec.disabled) continue;
-      if (isNearExpiry(rec.expire, 10 * 60 * 1000)) {
+      if (isNearExpiry(rec.expire, REFRESH_NEAR_EXPIRY_MS)) {
         await refreshToken(rec);
       }
     }
@@ -125,9 +212,8 @@ export async function refreshDueTokens() {
 }
 
 export function scheduleNextRefresh() {
-  const base = 15 * 60 * 1000; // 15m
-  const jitter = Math.floor((Math.random() * 6 - 3) * 60 * 1000); // ±3m
-  const delay = Math.max(60 * 1000, base + jitter); // at least 1m
+  const jitter = Math.floor((Math.random() * 2 - 1) * REFRESH_JITTER_MS);
+  const delay = Math.max(60 * 1000, REFRESH_INTERVAL_MS + jitter); // at least 1m
   setTimeout(async () => {
     await refreshDueTokens();
     scheduleNextRefresh();
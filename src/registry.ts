@@ -0,0 +1,286 @@
+import {
+  STORAGE_SYNC_INTERVAL_MS,
+  STORAGE_WRITE_DELAY_MS,
+} from './config.js';
+import type { AccountPatch, SelectionStrategy, TokenRecord } from './types.js';
+import {
+  migrateTokens,
+  patchRecords,
+  readRR,
+  readStrategy,
+  readTokens,
+  storageLocation,
+  TOKENS_LOCK,
+  TOKENS_LOCK_TTL_MS,
+  watchTokens,
+  writeRR,
+  writeStrategy,
+  writeTokens,
+} from './storage.js';
+import { withLock } from './lock.js';
+import { accountProblems, migrationsBetween } from './schema.js';
+
+// In-memory account registry. It is loaded once at startup and serves all
+// reads; changes are written back asynchronously, coalesced over
+// STORAGE_WRITE_DELAY_MS.
+//
+// Several processes may share the store, so changes are kept as field-level
+// patches and merged into the records as currently stored, under a
+// cross-process lock. Each write also adopts what other processes stored.
+
+let accounts: TokenRecord[] | undefined;
+let rrIndex = 0;
+let currentStrategy: SelectionStrategy = 'sticky';
+
+// Local changes not written yet
+type Pending = {
+  patches: Map<string, AccountPatch>;
+  added: TokenRecord[];
+  removed: Set<string>;
+  rr: boolean;
+  strategy: boolean;
+};
+
+const emptyPending = (): Pending => ({
+  patches: new Map(),
+  added: [],
+  removed: new Set(),
+  rr: false,
+  strategy: false,
+});
+
+let pending = emptyPending();
+let timer: NodeJS.Timeout | undefined;
+let persisting: Promise<void> = Promise.resolve();
+// Set while syncs fail, so a bad store is reported once, not on every tick
+let syncFailing = false;
+
+// Upgrade a store written by an older version (see schema.ts), under the
+// tokens lock so only one process does it
+export async function migrateStore() {
+  const done = await withLock(TOKENS_LOCK, TOKENS_LOCK_TTL_MS, migrateTokens);
+  if (!done) return;
+  const where = await storageLocation();
+  console.log(
+    `Upgraded accounts in ${where} from schema version ${done.from} to ${done.to}` +
+      (done.backup ? `; backup in ${done.backup}` : '')
+  );
+  for (const m of migrationsBetween(done.from, done.to)) console.log(`  ${m}`);
+}
+
+// Log accounts that cannot serve requests until fixed
+export function reportAccountProblems() {
+  for (const p of accountProblems(loaded()))
+    console.warn(`Invalid account: ${p}`);
+}
+
+export async function loadRegistry() {
+  accounts = await readTokens();
+  rrIndex = await readRR();
+  currentStrategy = await readStrategy();
+}
+
+function loaded(): TokenRecord[] {
+  if (!accounts) throw new Error('Account registry is not loaded');
+  return accounts;
+}
+
+function applyPending(list: TokenRecord[], p: Pending): TokenRecord[] {
+  const out = list.filter((t) => !p.removed.has(t.id));
+  for (const rec of p.added)
+    if (!out.some((t) => t.id === rec.id)) out.push({ ...rec });
+  for (const [id, patch] of p.patches) {
+    const rec = out.find((t) => t.id === id);
+    if (rec) Object.assign(rec, patch);
+  }
+  return out;
+}
+
+const hasChanges = (p: Pending) =>
+  p.patches.size > 0 ||
+  p.added.length > 0 ||
+  p.removed.size > 0 ||
+  p.rr ||
+  p.strategy;
+
+// Put changes that failed to persist back in front of newer ones
+function requeue(p: Pending) {
+  for (const [id, patch] of p.patches)
+    pending.patches.set(id, { ...patch, ...pending.patches.get(id) });
+  // Unless removed meanwhile
+  pending.added.unshift(...p.added.filter((t) => !pending.removed.has(t.id)));
+  p.removed.forEach((id) => pending.removed.add(id));
+  pending.rr ||= p.rr;
+  pending.strategy ||= p.strategy;
+}
+
+async function persist() {
+  const p = pending;
+  pending = emptyPending();
+  try {
+    await withLock(TOKENS_LOCK, TOKENS_LOCK_TTL_MS, async () => {
+      if (p.added.length || p.removed.size)
+        await writeTokens(applyPending(await readTokens(), p));
+      else if (p.patches.size) await patchRecords(p.patches);
+      if (p.rr) await writeRR(rrIndex);
+      if (p.strategy) await writeStrategy(currentStrategy);
+      // Adopt the stored state, keeping changes made while this ran
+      accounts = applyPending(await readTokens(), pending);
+      if (!pending.rr) rrIndex = await readRR();
+      if (!pending.strategy) currentStrategy = await readStrategy();
+    });
+    if (syncFailing) {
+      syncFailing = false;
+      console.log('Accounts are in sync with the store again');
+    }
+  } catch (e: any) {
+    if (!syncFailing) {
+      syncFailing = true;
+      console.error(
+        `Failed to sync accounts with the store: ${e?.message || e}; retrying quietly until it succeeds`
+      );
+    }
+    if (hasChanges(p)) {
+      requeue(p);
+      schedule();
+    }
+  }
+}
+
+function schedule() {
+  if (timer) return;
+  timer = setTimeout(() => {
+    timer = undefined;
+    persisting = persisting.then(persist);
+  }, STORAGE_WRITE_DELAY_MS);
+}
+
+// Write pending changes now and pick up changes stored by other processes
+export async function syncRegistry() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+  persisting = persisting.then(persist);
+  await persisting;
+}
+
+export function scheduleRegistrySync() {
+  if (STORAGE_SYNC_INTERVAL_MS <= 0) return;
+  setTimeout(async () => {
+    await syncRegistry();
+    scheduleRegistrySync();
+  }, STORAGE_SYNC_INTERVAL_MS).unref();
+}
+
+// Reload when the store is edited externally (e.g. by hand or restored from
+// a backup). An invalid store is rejected and the last good state kept;
+// local changes stay pending until it is fixed.
+export async function watchRegistry() {
+  const where = await storageLocation();
+  await watchTokens(async () => {
+    try {
+      await migrateStore();
+      await readTokens();
+    } catch (e: any) {
+      console.error(
+        `Ignoring invalid accounts in ${where}: ${e?.message || e}; keeping the last good state`
+      );
+      return;
+    }
+    await syncRegistry();
+    console.log(`Reloaded ${loaded().length} account(s) from ${where}`);
+    reportAccountProblems();
+  });
+}
+
+// Write pending changes now (on shutdown)
+export async function flushRegistry() {
+  if (timer) await syncRegistry();
+  else await persisting;
+}
+
+function patchLocal(id: string, patch: AccountPatch) {
+  const rec = loaded().find((t) => t.id === id);
+  if (!rec) return;
+  Object.assign(rec, patch);
+  pending.patches.set(id, { ...pending.patches.get(id), ...patch });
+  schedule();
+}
+
+// Copies, so callers cannot change the registry by accident
+export function listAccounts(): TokenRecord[] {
+  return loaded().map((t) => ({ ...t }));
+}
+
+export function getAccount(id: string): TokenRecord | undefined {
+  const rec = loaded().find((t) => t.id === id);
+  return rec && { ...rec };
+}
+
+// The account as currently stored, after syncing with other processes
+export async function reloadAccount(
+  id: string
+): Promise<TokenRecord | undefined> {
+  await syncRegistry();
+  return getAccount(id);
+}
+
+export function addAccount(rec: TokenRecord) {
+  loaded().push({ ...rec });
+  pending.added.push({ ...rec });
+  schedule();
+}
+
+// Replace the record with the same id; only the fields that differ are
+// written, so concurrent changes to other fields survive
+export function replaceAccount(updated: TokenRecord) {
+  const current = loaded().find((t) => t.id === updated.id);
+  if (!current) return;
+  const patch: AccountPatch = {};
+  const keys = new Set([...Object.keys(current), ...Object.keys(updated)]);
+  for (const k of keys as Set<keyof TokenRecord>)
+    if (current[k] !== updated[k]) (patch as any)[k] = updated[k];
+  if (Object.keys(patch).length) patchLocal(updated.id, patch);
+}
+
+// Merge fields into the current record
+export function patchAccount(id: string, patch: AccountPatch) {
+  patchLocal(id, patch);
+}
+
+// The rr index keeps pointing at the same account
+export function removeAccount(id: string) {
+  const list = loaded();
+  const idx = list.findIndex((t) => t.id === id);
+  if (idx < 0) return;
+  list.splice(idx, 1);
+  const rr = idx < rrIndex ? rrIndex - 1 : rrIndex >= list.length ? 0 : rrIndex;
+  if (rr !== rrIndex) setActiveIndex(rr);
+  pending.removed.add(id);
+  // An add not written yet must not bring it back
+  pending.added = pending.added.filter((t) => t.id !== id);
+  pending.patches.delete(id);
+  schedule();
+}
+
+export function activeIndex(): number {
+  return rrIndex;
+}
+
+export function setActiveIndex(v: number) {
+  if (v === rrIndex) return;
+  rrIndex = v;
+  pending.rr = true;
+  schedule();
+}
+
+export function activeStrategy(): SelectionStrategy {
+  return currentStrategy;
+}
+
+export function setStrategy(v: SelectionStrategy) {
+  currentStrategy = v;
+  pending.strategy = true;
+  schedule();
+}
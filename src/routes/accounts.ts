@@ -1,34 +1,24 @@
 import { Hono } from 'hono';
-import { readRR, readTokens, removeRecord, updateRecord, writeRR, writeTokens } from '../storage.js';
-import { maskToken, isCoolingDown, isExpired, decodeJwtPayload, parseExpireSeconds } from '../utils.js';
+import { activeIndex, activeStrategy, addAccount, getAccount, listAccounts, patchAccount, removeAccount, setActiveIndex, setStrategy } from '../registry.js';
+import { maskToken, isCoolingDown, isExpired, decodeJwtPayload, parseExpireSeconds, accountStatus } from '../utils.js';
 import { refreshToken } from '../refresh.js';
-import type { TokenRecord } from '../types.js';
+import { probeAccount } from '../probe.js';
+import { SELECTION_STRATEGIES } from '../types.js';
+import type { SelectionStrategy, TokenRecord } from '../types.js';
+import { requireAdmin } from '../admin.js';
 import { randomUUID } from 'crypto';
 
 export function registerAccounts(app: Hono) {
+  app.use('/accounts', requireAdmin);
+  app.use('/accounts/*', requireAdmin);
+
   app.get('/accounts', async (c) => {
-    const tokens = await readTokens();
-    let rr = await readRR();
+    const tokens = listAccounts();
+    let rr = activeIndex();
     if (!Number.isFinite(rr) || rr < 0 || rr >= tokens.length) rr = 0;
     const now = Date.now();
     const accounts = tokens.map((t: TokenRecord, i: number) => {
-      let status = 'unknown';
-      let expires_in_seconds: number | undefined;
-      if (t.disabled) status = 'disabled';
-      else if (t.cooldown_until && Date.parse(t.cooldown_until) > now)
-        status = 'cooldown';
-      else if (t.expire) {
-        const tms = Date.parse(t.expire);
-        if (!Number.isNaN(tms)) {
-          const diff = Math.floor((tms - now) / 1000);
-          expires_in_seconds = diff;
-          if (diff <= 0) status = 'expired';
-          else if (diff <= 5 * 60) status = 'expiring-soon';
-          else status = 'active';
-        }
-      } else {
-        status = 'active';
-      }
+      const { status, expires_in_seconds } = accountStatus(t, now);
 
       const usable = !t.disabled && !isCoolingDown(t) && !isExpired(t);
       let ui_state: 'active' | 'waiting' | 'frozen' = 'waiting';
@@ -60,48 +50,86 @@ export function registerAccounts(app: Hono) {
         fail_count: t.fail_count || 0,
         last_error_code: t.last_error_code,
         disabled: !!t.disabled,
+        weight: t.weight ?? 1,
+        rate_limits: t.rate_limits,
+        probes: t.probes || [],
+        next_probe_at: t.next_probe_at,
         token: maskToken(t.type === 'relay' ? t.api_key || '' : t.access_token || ''),
       };
     });
-    return c.json({ accounts });
+    const strategy = activeStrategy();
+    return c.json({ accounts, strategy, strategies: SELECTION_STRATEGIES });
+  });
+
+  // Management: switch the selection strategy at runtime
+  app.post('/accounts/strategy', async (c) => {
+    let body: any = {};
+    try {
+      body = await c.req.json();
+    } catch {}
+    const strategy = body?.strategy;
+    if (!(SELECTION_STRATEGIES as readonly string[]).includes(strategy))
+      return c.json({ error: 'invalid_strategy' }, 400);
+    setStrategy(strategy as SelectionStrategy);
+    return c.json({ ok: true, strategy });
   });
 
   // Management: delete an account by id
   app.delete('/accounts/:id', async (c) => {
     const id = c.req.param('id');
-    await removeRecord(id);
+    removeAccount(id);
     return c.json({ ok: true });
   });
 
   // Management: force refresh a token
   app.post('/accounts/:id/refresh', async (c) => {
     const id = c.req.param('id');
-    const tokens = await readTokens();
-    const rec = tokens.find((t) => t.id === id);
+    const rec = getAccount(id);
     if (!rec) return c.json({ error: 'not found' }, 404);
     const updated = await refreshToken(rec);
     if (!updated) return c.json({ error: 'refresh_failed' }, 500);
     return c.json({ ok: true, id: updated.id, expire: updated.expire });
   });
 
+  // Management: run a health probe now (clears the cooldown on success)
+  app.post('/accounts/:id/probe', async (c) => {
+    const id = c.req.param('id');
+    const rec = getAccount(id);
+    if (!rec) return c.json({ error: 'not found' }, 404);
+    const result = await probeAccount(rec);
+    return c.json({ ok: result.ok, probe: result });
+  });
+
   // Management: disable/enable
   app.post('/accounts/:id/disable', async (c) => {
     const id = c.req.param('id');
-    const tokens = await readTokens();
-    const rec = tokens.find((t: TokenRecord) => t.id === id);
+    const rec = getAccount(id);
     if (!rec) return c.json({ error: 'not found' }, 404);
-    rec.disabled = true;
-    await updateRecord(rec);
+    patchAccount(id, { disabled: true });
     return c.json({ ok: true });
   });
 
+  // Management: set the weight used by the weighted strategy
+  app.post('/accounts/:id/weight', async (c) => {
+    const id = c.req.param('id');
+    let body: any = {};
+    try {
+      body = await c.req.json();
+    } catch {}
+    const weight = Number(body?.weight);
+    if (!Number.isFinite(weight) || weight < 0)
+      return c.json({ error: 'invalid_weight' }, 400);
+    const rec = getAccount(id);
+    if (!rec) return c.json({ error: 'not found' }, 404);
+    patchAccount(id, { weight });
+    return c.json({ ok: true, weight });
+  });
+
   app.post('/accounts/:id/enable', async (c) => {
     const id = c.req.param('id');
-    const tokens = await readTokens();
-    const rec = tokens.find((t: TokenRecord) => t.id === id);
+    const rec = getAccount(id);
     if (!rec) return c.json({ error: 'not found' }, 404);
-    rec.disabled = false;
-    await updateRecord(rec);
+    patchAccount(id, { disabled: false });
     return c.json({ ok: true });
   });
 
@@ -134,9 +162,7 @@ export function registerAccounts(app: Hono) {
       last_error_code: undefined,
       disabled: false,
     };
-    const tokens = await readTokens();
-    tokens.push(rec);
-    await writeTokens(tokens);
+    addAccount(rec);
     return c.json({ ok: true, id: rec.id, email: rec.email });
   });
 
@@ -162,19 +188,16 @@ export function registerAccounts(app: Hono) {
       disabled: false,
       fail_count: 0,
     };
-    const tokens = await readTokens();
-    tokens.push(rec);
-    await writeTokens(tokens);
+    addAccount(rec);
     return c.json({ ok: true, id: rec.id, name: rec.name });
   });
 
   // Activate a specific account/relay (set rr index to it)
   app.post('/accounts/:id/activate', async (c) => {
     const id = c.req.param('id');
-    const tokens = await readTokens();
-    const idx = tokens.findIndex((t) => t.id === id);
+    const idx = listAccounts().findIndex((t) => t.id === id);
     if (idx < 0) return c.json({ error: 'not_found' }, 404);
-    await writeRR(idx);
+    setActiveIndex(idx);
     return c.json({ ok: true, index: idx });
   });
 }
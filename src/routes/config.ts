@@ -0,0 +1,11 @@
+import { Hono } from 'hono';
+import { effectiveConfig } from '../config.js';
+import { requireAdmin } from '../admin.js';
+
+export function registerConfig(app: Hono) {
+  app.use('/config', requireAdmin);
+
+  // Effective configuration: value and origin (default, file or env) of each
+  // setting, with secrets redacted
+  app.get('/config', (c) => c.json(effectiveConfig()));
+}
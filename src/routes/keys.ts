@@ -0,0 +1,71 @@
+import { Hono } from 'hono';
+import { readApiKeys, updateApiKeys } from '../storage.js';
+import { generateApiKey, newApiKeyRecord } from '../keys.js';
+import { requireAdmin } from '../admin.js';
+import { randomUUID } from 'crypto';
+
+// The keys file exists but cannot be read; it is left alone until fixed
+function unreadable(c: any, e: any) {
+  console.error(`Cannot read client keys: ${e?.message || e}`);
+  return c.json({ error: 'keys_unreadable', message: e?.message || String(e) }, 500);
+}
+
+export function registerKeys(app: Hono) {
+  app.use('/keys', requireAdmin);
+  app.use('/keys/*', requireAdmin);
+
+  // List client keys (never returns the key itself)
+  app.get('/keys', async (c) => {
+    let keys;
+    try {
+      keys = await readApiKeys();
+    } catch (e) {
+      return unreadable(c, e);
+    }
+    return c.json({
+      keys: keys.map((k) => ({
+        id: k.id,
+        label: k.label,
+        prefix: k.prefix,
+        created_at: k.created_at,
+        last_used: k.last_used,
+      })),
+    });
+  });
+
+  // Create a client key; the plaintext key is only returned here
+  app.post('/keys', async (c) => {
+    let body: any = {};
+    try {
+      body = await c.req.json();
+    } catch {}
+    const label = (body?.label || '').trim();
+    if (!label) return c.json({ error: 'missing_label' }, 400);
+    const key = generateApiKey();
+    const rec = newApiKeyRecord(randomUUID(), label, key);
+    try {
+      await updateApiKeys((keys) => ({ keys: [...keys, rec], result: undefined }));
+    } catch (e) {
+      return unreadable(c, e);
+    }
+    return c.json({ ok: true, id: rec.id, label: rec.label, key });
+  });
+
+  // Revoke a client key
+  app.delete('/keys/:id', async (c) => {
+    const id = c.req.param('id');
+    let found: boolean;
+    try {
+      found = await updateApiKeys((keys) => {
+        const next = keys.filter((k) => k.id !== id);
+        return next.length === keys.length
+          ? { result: false }
+          : { keys: next, result: true };
+      });
+    } catch (e) {
+      return unreadable(c, e);
+    }
+    if (!found) return c.json({ error: 'not_found' }, 404);
+    return c.json({ ok: true });
+  });
+}
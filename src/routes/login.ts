@@ -0,0 +1,83 @@
+import { Hono } from 'hono';
+import { html } from 'hono/html';
+import { COOKIE_SESSION } from '../config.js';
+import {
+  SESSION_TTL_MS,
+  checkAdminToken,
+  createSession,
+  destroySession,
+} from '../admin.js';
+import { getCookie, setCookie } from '../utils.js';
+
+function loginPage(error?: string) {
+  return html`<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <title>Codex Equilibrium — Sign in</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, Segoe UI, Roboto,
+              Oxygen, Ubuntu, Cantarell, sans-serif;
+            margin: 2rem;
+            display: grid;
+            place-items: center;
+          }
+          .card {
+            max-width: 420px;
+            padding: 1.5rem;
+            border: 1px solid #e5e7eb;
+            border-radius: 8px;
+          }
+          input {
+            width: 100%;
+            margin: 0.5rem 0 1rem;
+            padding: 0.5rem;
+            box-sizing: border-box;
+          }
+          button {
+            cursor: pointer;
+            padding: 0.5rem 1rem;
+            background: #4f46e5;
+            color: white;
+            border: 0;
+            border-radius: 4px;
+          }
+          .error {
+            color: #ef4444;
+          }
+        </style>
+      </head>
+      <body>
+        <form class="card" method="post" action="/login">
+          <h2>Codex Equilibrium</h2>
+          ${error ? html`<p class="error">${error}</p>` : ''}
+          <label
+            >Admin token
+            <input name="token" type="password" autofocus autocomplete="current-password"
+          /></label>
+          <button type="submit">Sign in</button>
+        </form>
+      </body>
+    </html>`;
+}
+
+export function registerLogin(app: Hono) {
+  app.get('/login', async (c) => c.html(loginPage()));
+
+  app.post('/login', async (c) => {
+    const body = await c.req.parseBody();
+    const token = typeof body.token === 'string' ? body.token.trim() : '';
+    if (!checkAdminToken(token)) {
+      return c.html(loginPage('Invalid admin token'), 401);
+    }
+    setCookie(c, COOKIE_SESSION, createSession(), SESSION_TTL_MS / 1000);
+    return c.redirect('/');
+  });
+
+  app.post('/logout', async (c) => {
+    destroySession(getCookie(c, COOKIE_SESSION));
+    setCookie(c, COOKIE_SESSION, '', 0);
+    return c.redirect('/login');
+  });
+}
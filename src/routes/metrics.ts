@@ -0,0 +1,47 @@
+import { Hono } from 'hono';
+import { listAccounts } from '../registry.js';
+import { accountStatus } from '../utils.js';
+import { renderMetrics } from '../metrics.js';
+import { requireAdmin } from '../admin.js';
+import { queuedRequests } from '../queue.js';
+
+const ACCOUNT_STATES = [
+  'active',
+  'expiring-soon',
+  'cooldown',
+  'expired',
+  'disabled',
+  'unknown',
+];
+
+export function registerMetrics(app: Hono) {
+  app.use('/metrics', requireAdmin);
+
+  // Prometheus scrape endpoint
+  app.get('/metrics', async (c) => {
+    const tokens = listAccounts();
+    const now = Date.now();
+    const counts = new Map<string, number>();
+    for (const s of ACCOUNT_STATES) counts.set(s, 0);
+    for (const t of tokens) {
+      const { status } = accountStatus(t, now);
+      counts.set(status, (counts.get(status) || 0) + 1);
+    }
+    const body = renderMetrics([
+      {
+        name: 'accounts',
+        help: 'Accounts by state, as reported by GET /accounts.',
+        values: [...counts].map(([state, n]) => [{ state }, n]),
+      },
+      {
+        name: 'queued_requests',
+        help: 'Requests waiting for an account to come off cooldown.',
+        values: [[{}, queuedRequests()]],
+      },
+    ]);
+    return new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  });
+}
@@ -17,11 +17,15 @@ import {
   parseExpireSeconds,
 } from '../utils.js';
 import { html } from 'hono/html';
-import { readTokens, writeTokens } from '../storage.js';
+import { addAccount } from '../registry.js';
 import type { TokenRecord } from '../types.js';
+import { requireAdmin } from '../admin.js';
 import { randomUUID } from 'crypto';
 
 export function registerOAuth(app: Hono) {
+  app.use('/oauth/*', requireAdmin);
+  app.use('/auth/callback', requireAdmin);
+
   app.get('/oauth/start', async (c) => {
     const verifier = generateCodeVerifier();
     const challenge = generateCodeChallenge(verifier);
@@ -95,9 +99,7 @@ export function registerOAuth(app: Hono) {
       last_error_code: undefined,
       disabled: false,
     };
-    const tokens = await readTokens();
-    tokens.push(rec);
-    await writeTokens(tokens);
+    addAccount(rec);
 
     return c.html(html`<!DOCTYPE html>
       <html>
@@ -0,0 +1,33 @@
+import { Hono } from 'hono';
+import { readUsage } from '../storage.js';
+import { listAccounts } from '../registry.js';
+import { aggregateUsage, usageToCsv } from '../usage.js';
+import { requireAdmin } from '../admin.js';
+
+export function registerStats(app: Hono) {
+  app.use('/stats', requireAdmin);
+
+  // Token usage totals with per-account, per-model, per-key and per-day breakdowns.
+  // Optional ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, UTC) and ?format=csv
+  app.get('/stats', async (c) => {
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    const entries = (await readUsage()).filter((e) => {
+      const day = e.ts.slice(0, 10);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      return true;
+    });
+    const tokens = listAccounts();
+    if (c.req.query('format') === 'csv') {
+      return new Response(usageToCsv(entries, tokens), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="usage.csv"',
+        },
+      });
+    }
+    return c.json({ from, to, ...aggregateUsage(entries, tokens) });
+  });
+}
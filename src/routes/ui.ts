@@ -1,7 +1,10 @@
 import { Hono } from 'hono';
 import { html } from 'hono/html';
+import { requireAdmin } from '../admin.js';
 
 export function registerUi(app: Hono) {
+  app.use('/', requireAdmin);
+
   app.get('/', async (c) => {
     return c.html(html`<!DOCTYPE html>
       <html>
@@ -78,6 +81,11 @@ export function registerUi(app: Hono) {
             <button id="refresh-all" class="button" style="background:#059669">
               Refresh All
             </button>
+            <form method="post" action="/logout" style="display:inline">
+              <button type="submit" class="button" style="background:#6b7280">
+                Sign out
+              </button>
+            </form>
           </div>
           <div
             id="relay-form"
@@ -116,6 +124,12 @@ export function registerUi(app: Hono) {
               </button>
             </div>
           </div>
+          <div style="margin-top:0.5rem">
+            <label
+              >Selection strategy
+              <select id="strategy" style="margin-left:4px"></select>
+            </label>
+          </div>
           <table>
             <thead>
               <tr>
@@ -129,13 +143,47 @@ export function registerUi(app: Hono) {
                 <th>Status</th>
                 <th>Cooldown Remaining</th>
                 <th>Fails</th>
+                <th>Weight</th>
+                <th>Rate Limits</th>
+                <th>Last Probe</th>
                 <th>Last Error</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody id="acct-body">
               <tr>
-                <td colspan="12" class="muted">Loading...</td>
+                <td colspan="15" class="muted">Loading...</td>
+              </tr>
+            </tbody>
+          </table>
+          <h2 style="margin-top:2rem">Client API Keys</h2>
+          <div style="display:flex; gap:8px; align-items:center;">
+            <label
+              >Label
+              <input
+                id="key-label"
+                type="text"
+                placeholder="alice-laptop"
+                style="margin-left:4px"
+            /></label>
+            <button id="key-create" class="button" style="background:#4f46e5">
+              Create Key
+            </button>
+          </div>
+          <div id="key-new" class="muted" style="margin-top:0.5rem"></div>
+          <table>
+            <thead>
+              <tr>
+                <th>Label</th>
+                <th>Key</th>
+                <th>Created</th>
+                <th>Last Used</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody id="key-body">
+              <tr>
+                <td colspan="5" class="muted">Loading...</td>
               </tr>
             </tbody>
           </table>
@@ -144,8 +192,37 @@ export function registerUi(app: Hono) {
               var res = await fetch('/accounts');
               if (!res.ok) return [];
               var data = await res.json();
+              renderStrategy(data.strategy, data.strategies || []);
               return data.accounts || [];
             }
+            function renderStrategy(current, all) {
+              var sel = document.getElementById('strategy');
+              sel.innerHTML = all
+                .map(function (s) {
+                  return (
+                    '<option value="' +
+                    s +
+                    '"' +
+                    (s === current ? ' selected' : '') +
+                    '>' +
+                    s +
+                    '</option>'
+                  );
+                })
+                .join('');
+            }
+            // Labels are user supplied, never put them into markup raw
+            function esc(s) {
+              return String(s == null ? '' : s).replace(/[&<>"']/g, function (ch) {
+                return {
+                  '&': '&amp;',
+                  '<': '&lt;',
+                  '>': '&gt;',
+                  '"': '&quot;',
+                  "'": '&#39;',
+                }[ch];
+              });
+            }
             function fmt(s) {
               if (!s) return '';
               return new Date(s).toLocaleString();
@@ -157,16 +234,65 @@ export function registerUi(app: Hono) {
               var sec = Math.floor(t / 1000);
               var m = Math.floor(sec / 60);
               var s2 = sec % 60;
+              if (m >= 60)
+                return Math.floor(m / 60) + 'h ' + (m % 60) + 'm';
               return m + 'm ' + s2 + 's';
             }
+            // "42% (resets in 1h 5m)" per reported usage window
+            function fmtLimits(rl) {
+              if (!rl) return '';
+              return [
+                ['primary', rl.primary],
+                ['secondary', rl.secondary],
+              ]
+                .filter(function (p) {
+                  return p[1];
+                })
+                .map(function (p) {
+                  var w = p[1];
+                  var reset = fmtCD(w.resets_at);
+                  return (
+                    p[0] +
+                    ': ' +
+                    Math.round(w.used_percent) +
+                    '%' +
+                    (reset ? ' (resets in ' + reset + ')' : '')
+                  );
+                })
+                .join('<br>');
+            }
+            // Latest probe in the cell, recent history in the tooltip
+            function fmtProbes(probes) {
+              if (!probes || !probes.length) return '';
+              var line = function (p) {
+                return (
+                  fmt(p.ts) +
+                  ' ' +
+                  (p.ok ? 'ok' : 'failed') +
+                  (p.status ? ' ' + p.status : '') +
+                  (p.error ? ' (' + p.error + ')' : '')
+                );
+              };
+              var last = probes[0];
+              return (
+                '<span title="' +
+                probes.map(line).join('\\n').replace(/"/g, '&quot;') +
+                '">' +
+                (last.ok ? 'ok' : 'failed') +
+                (last.status ? ' ' + last.status : '') +
+                '<br><span class="muted">' +
+                fmt(last.ts) +
+                '</span></span>'
+              );
+            }
             async function render() {
               var tbody = document.getElementById('acct-body');
               tbody.innerHTML =
-                '<tr><td colspan="12" class="muted">Loading...</td></tr>';
+                '<tr><td colspan="15" class="muted">Loading...</td></tr>';
               var list = await fetchAccounts();
               if (!list.length) {
                 tbody.innerHTML =
-                  '<tr><td colspan="12" class="muted">No accounts yet</td></tr>';
+                  '<tr><td colspan="15" class="muted">No accounts yet</td></tr>';
                 return;
               }
               tbody.innerHTML = list
@@ -212,6 +338,15 @@ export function registerUi(app: Hono) {
                     (a.fail_count || 0) +
                     '</td>' +
                     '<td>' +
+                    a.weight +
+                    '</td>' +
+                    '<td>' +
+                    fmtLimits(a.rate_limits) +
+                    '</td>' +
+                    '<td>' +
+                    fmtProbes(a.probes) +
+                    '</td>' +
+                    '<td>' +
                     (a.last_error_code || '') +
                     '</td>' +
                     '<td class="actions">' +
@@ -232,6 +367,14 @@ export function registerUi(app: Hono) {
                     '<button data-action="refresh" data-id="' +
                     a.id +
                     '">Refresh</button>' +
+                    '<button data-action="probe" data-id="' +
+                    a.id +
+                    '">Probe</button>' +
+                    '<button data-action="weight" data-id="' +
+                    a.id +
+                    '" data-weight="' +
+                    a.weight +
+                    '">Weight</button>' +
                     '<button data-action="delete" data-id="' +
                     a.id +
                     '">Delete</button>' +
@@ -241,8 +384,75 @@ export function registerUi(app: Hono) {
                 })
                 .join('');
             }
+            async function renderKeys() {
+              var tbody = document.getElementById('key-body');
+              var res = await fetch('/keys');
+              var data = res.ok ? await res.json() : {};
+              var list = data.keys || [];
+              if (!list.length) {
+                tbody.innerHTML =
+                  '<tr><td colspan="5" class="muted">No keys yet</td></tr>';
+                return;
+              }
+              tbody.innerHTML = list
+                .map(function (k) {
+                  return (
+                    '<tr>' +
+                    '<td>' +
+                    esc(k.label) +
+                    '</td>' +
+                    '<td>' +
+                    esc(k.prefix) +
+                    '</td>' +
+                    '<td>' +
+                    fmt(k.created_at) +
+                    '</td>' +
+                    '<td>' +
+                    fmt(k.last_used) +
+                    '</td>' +
+                    '<td class="actions">' +
+                    '<button data-action="revoke-key" data-id="' +
+                    k.id +
+                    '">Revoke</button>' +
+                    '</td>' +
+                    '</tr>'
+                  );
+                })
+                .join('');
+            }
             document.addEventListener('click', async function (e) {
               var t = e.target;
+              if (t && t.id === 'key-create') {
+                var labelEl = document.getElementById('key-label');
+                var label = labelEl && labelEl.value ? labelEl.value.trim() : '';
+                if (!label) return alert('Label is required');
+                t.disabled = true;
+                var resK = await fetch('/keys', {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ label: label }),
+                });
+                t.disabled = false;
+                if (!resK.ok) return alert('Failed to create key');
+                var created = await resK.json();
+                labelEl.value = '';
+                document.getElementById('key-new').textContent =
+                  'New key for ' +
+                  created.label +
+                  ' (copy it now, it will not be shown again): ' +
+                  created.key;
+                await renderKeys();
+                return;
+              }
+              if (t && t.dataset && t.dataset.action === 'revoke-key') {
+                if (!confirm('Revoke this key?')) return;
+                var resR = await fetch(
+                  '/keys/' + encodeURIComponent(t.dataset.id),
+                  { method: 'DELETE' }
+                );
+                if (resR.ok) await renderKeys();
+                return;
+              }
               if (t && t.id === 'toggle-relay') {
                 var box = document.getElementById('relay-form');
                 box.style.display =
@@ -296,6 +506,16 @@ export function registerUi(app: Hono) {
                 t.disabled = false;
                 t.textContent = 'Refresh';
                 if (res2.ok) await render();
+              } else if (t && t.dataset && t.dataset.action === 'probe') {
+                t.disabled = true;
+                t.textContent = 'Probing...';
+                await fetch(
+                  '/accounts/' + encodeURIComponent(t.dataset.id) + '/probe',
+                  { method: 'POST' }
+                );
+                t.disabled = false;
+                t.textContent = 'Probe';
+                await render();
               } else if (t && t.dataset && t.dataset.action === 'activate') {
                 var idA = t.dataset.id;
                 t.disabled = true;
@@ -314,6 +534,19 @@ export function registerUi(app: Hono) {
                 );
                 t.disabled = false;
                 if (res3.ok) await render();
+              } else if (t && t.dataset && t.dataset.action === 'weight') {
+                var w = prompt('Weight (0 excludes the account)', t.dataset.weight);
+                if (w === null) return;
+                var resW = await fetch(
+                  '/accounts/' + encodeURIComponent(t.dataset.id) + '/weight',
+                  {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ weight: Number(w) }),
+                  }
+                );
+                if (!resW.ok) alert('Invalid weight');
+                await render();
               } else if (t && t.dataset && t.dataset.action === 'enable') {
                 var id4 = t.dataset.id;
                 t.disabled = true;
@@ -338,7 +571,19 @@ export function registerUi(app: Hono) {
                 await render();
               }
             });
+            document
+              .getElementById('strategy')
+              .addEventListener('change', async function (e) {
+                var res = await fetch('/accounts/strategy', {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ strategy: e.target.value }),
+                });
+                if (!res.ok) alert('Failed to switch strategy');
+                await render();
+              });
             render();
+            renderKeys();
           </script>
         </body>
       </html>`);
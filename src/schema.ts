@@ -0,0 +1,96 @@
+import type { TokenRecord } from './types.js';
+
+// Versioned schema of the account store. Version 1 is the original bare JSON
+// array; from version 2 the JSON file is an envelope
+//   { "version": 2, "accounts": [...] }
+// and SQLite keeps the version in its meta table. Stores written by an older
+// version are upgraded at startup, after a backup.
+
+export const TOKENS_SCHEMA_VERSION = 2;
+
+type Migration = {
+  to: number;
+  description: string;
+  up: (accounts: any[]) => any[];
+};
+
+// In order; each upgrades the accounts from version `to - 1`
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: 'store the account type explicitly (missing meant oauth)',
+    up: (accounts) =>
+      accounts.map((t) => ({
+        ...t,
+        type: t?.type === 'relay' ? 'relay' : 'oauth',
+      })),
+  },
+];
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+// Accounts stored under `version`, upgraded to the current schema
+export function upgradeAccounts(accounts: any[], version: number): any[] {
+  if (version > TOKENS_SCHEMA_VERSION)
+    throw new SchemaError(
+      `Accounts were stored with schema version ${version}, but this version of codex-equilibrium only supports up to ${TOKENS_SCHEMA_VERSION}`
+    );
+  for (const m of MIGRATIONS)
+    if (m.to > version) accounts = m.up(accounts);
+  return accounts;
+}
+
+// Descriptions of the migrations between two versions, for logs
+export function migrationsBetween(from: number, to: number): string[] {
+  return MIGRATIONS.filter((m) => m.to > from && m.to <= to).map(
+    (m) => `v${m.to}: ${m.description}`
+  );
+}
+
+// Structure the store cannot work without; violations are thrown
+export function validateAccounts(list: unknown): TokenRecord[] {
+  if (!Array.isArray(list))
+    throw new SchemaError('expected an array of accounts');
+  const ids = new Set<string>();
+  list.forEach((t, i) => {
+    if (!t || typeof t !== 'object' || Array.isArray(t))
+      throw new SchemaError(`account #${i} is not an object`);
+    if (typeof t.id !== 'string' || !t.id)
+      throw new SchemaError(`account #${i} has no id`);
+    if (ids.has(t.id)) throw new SchemaError(`duplicate account id ${t.id}`);
+    ids.add(t.id);
+  });
+  return list;
+}
+
+const REQUIRED: Record<TokenRecord['type'], string[]> = {
+  oauth: ['access_token'],
+  relay: ['name', 'base_url', 'api_key'],
+};
+
+function recordProblems(t: TokenRecord): string[] {
+  const required = REQUIRED[t.type];
+  if (!required)
+    return [`account ${t.id}: unknown type ${JSON.stringify(t.type)}`];
+  return required
+    .filter((field) => {
+      const v = (t as any)[field];
+      return typeof v !== 'string' || !v;
+    })
+    .map((field) => `${t.type} account ${t.id}: missing ${field}`);
+}
+
+// Records missing fields their type requires. They are kept, but are not
+// selected to serve requests until fixed.
+export function accountProblems(list: TokenRecord[]): string[] {
+  return list.flatMap(recordProblems);
+}
+
+export function isComplete(t: TokenRecord): boolean {
+  return recordProblems(t).length === 0;
+}
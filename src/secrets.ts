@@ -0,0 +1,188 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import { ENCRYPTION_KEY, ENCRYPTION_KEY_FILE } from './config.js';
+import type { TokenRecord } from './types.js';
+
+// Envelope encryption of the secret TokenRecord fields. Every value gets its
+// own random data key (AES-256-GCM); the data key is stored next to it,
+// wrapped with the master key (AES-256-GCM as well). Rotating the master key
+// only re-wraps data keys. Encrypted values look like
+//   enc:v1:<key id>:<wrap iv>:<wrapped data key>:<iv>:<ciphertext>
+// (base64url parts, GCM tags appended to the ciphertexts).
+
+export const SECRET_FIELDS = [
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'api_key',
+] as const;
+
+const PREFIX = 'enc:v1:';
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+// 32-byte key given as base64 (44 chars) or hex (64 chars)
+export function parseKey(text: string, origin: string): Buffer {
+  const t = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(t)
+    ? Buffer.from(t, 'hex')
+    : Buffer.from(t, 'base64');
+  if (key.length !== 32)
+    throw new EncryptionError(
+      `${origin}: encryption key must be 32 bytes, base64 or hex encoded (see "codex-equilibrium tokens keygen")`
+    );
+  return key;
+}
+
+export function generateKey(): string {
+  return randomBytes(32).toString('base64');
+}
+
+// Short fingerprint stored with each value so a wrong key is reported as such
+export function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+let cachedKey: Buffer | null | undefined;
+
+// Master key from the configuration (encryption.key or encryption.keyFile)
+export function configuredKey(): Buffer | undefined {
+  if (cachedKey !== undefined) return cachedKey || undefined;
+  if (ENCRYPTION_KEY) cachedKey = parseKey(ENCRYPTION_KEY, 'encryption.key');
+  else if (ENCRYPTION_KEY_FILE) {
+    let text: string;
+    try {
+      text = readFileSync(ENCRYPTION_KEY_FILE, 'utf8');
+    } catch (e: any) {
+      throw new EncryptionError(
+        `Cannot read encryption key file ${ENCRYPTION_KEY_FILE}: ${e?.message || e}`
+      );
+    }
+    cachedKey = parseKey(text, ENCRYPTION_KEY_FILE);
+  } else cachedKey = null;
+  return cachedKey || undefined;
+}
+
+export function isEncrypted(v: unknown): v is string {
+  return typeof v === 'string' && v.startsWith(PREFIX);
+}
+
+function seal(key: Buffer, plain: Buffer): { iv: Buffer; data: Buffer } {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([
+    cipher.update(plain),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  return { iv, data };
+}
+
+function open(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(data.subarray(data.length - 16));
+  return Buffer.concat([
+    decipher.update(data.subarray(0, data.length - 16)),
+    decipher.final(),
+  ]);
+}
+
+const b64 = (b: Buffer) => b.toString('base64url');
+
+export function encryptValue(plain: string, key: Buffer): string {
+  const dek = randomBytes(32);
+  const wrapped = seal(key, dek);
+  const sealed = seal(dek, Buffer.from(plain, 'utf8'));
+  return (
+    PREFIX +
+    [keyId(key), wrapped.iv, wrapped.data, sealed.iv, sealed.data]
+      .map((p) => (typeof p === 'string' ? p : b64(p)))
+      .join(':')
+  );
+}
+
+function parts(value: string) {
+  const p = value.slice(PREFIX.length).split(':');
+  if (p.length !== 5) throw new EncryptionError('Malformed encrypted value');
+  const [kid, ...rest] = p;
+  const [wrapIv, wrapped, iv, data] = rest.map((x) =>
+    Buffer.from(x, 'base64url')
+  );
+  return { kid, wrapIv, wrapped, iv, data };
+}
+
+function unwrap(value: string, key: Buffer) {
+  const p = parts(value);
+  if (p.kid !== keyId(key))
+    throw new EncryptionError(
+      `Value was encrypted with key ${p.kid}, but the configured key is ${keyId(key)}`
+    );
+  try {
+    return { ...p, dek: open(key, p.wrapIv, p.wrapped) };
+  } catch {
+    throw new EncryptionError('Cannot decrypt value: wrong key or corrupted data');
+  }
+}
+
+export function decryptValue(value: string, key: Buffer): string {
+  const p = unwrap(value, key);
+  try {
+    return open(p.dek, p.iv, p.data).toString('utf8');
+  } catch {
+    throw new EncryptionError('Cannot decrypt value: corrupted data');
+  }
+}
+
+// Re-wrap the data key with a new master key; the ciphertext is kept
+export function rewrapValue(value: string, oldKey: Buffer, newKey: Buffer) {
+  const p = unwrap(value, oldKey);
+  const wrapped = seal(newKey, p.dek);
+  return (
+    PREFIX +
+    [keyId(newKey), b64(wrapped.iv), b64(wrapped.data), b64(p.iv), b64(p.data)].join(
+      ':'
+    )
+  );
+}
+
+// Apply fn to every secret field that is set
+export function mapSecrets(
+  rec: TokenRecord,
+  fn: (v: string) => string
+): TokenRecord {
+  const out: TokenRecord = { ...rec };
+  for (const f of SECRET_FIELDS) {
+    const v = out[f];
+    if (typeof v === 'string' && v) out[f] = fn(v);
+  }
+  return out;
+}
+
+export function encryptRecord(rec: TokenRecord, key: Buffer): TokenRecord {
+  return mapSecrets(rec, (v) => (isEncrypted(v) ? v : encryptValue(v, key)));
+}
+
+// Plaintext values (written before encryption was enabled) pass through
+export function decryptRecord(
+  rec: TokenRecord,
+  key: Buffer | undefined
+): TokenRecord {
+  return mapSecrets(rec, (v) => {
+    if (!isEncrypted(v)) return v;
+    if (!key)
+      throw new EncryptionError(
+        'Tokens are encrypted but no encryption key is configured (set CODEX_EQUILIBRIUM_ENCRYPTION_KEY or CODEX_EQUILIBRIUM_ENCRYPTION_KEY_FILE)'
+      );
+    return decryptValue(v, key);
+  });
+}
@@ -1,68 +1,252 @@
-import type { TokenRecord } from './types.js';
+import type { SelectionStrategy, TokenRecord } from './types.js';
 import { isCoolingDown, isExpired } from './utils.js';
-import { readRR, readTokens, updateRecord, writeRR } from './storage.js';
+import {
+  activeIndex,
+  activeStrategy,
+  listAccounts,
+  patchAccount,
+  setActiveIndex,
+} from './registry.js';
+import { failoversTotal } from './metrics.js';
+import { tokensConsumedByAccount } from './usage.js';
+import { pinAccount, pinnedAccountId } from './affinity.js';
+import { headroomPercent } from './ratelimit.js';
+import { QUOTA_THRESHOLD_PERCENT } from './config.js';
+import { isComplete } from './schema.js';
 
-// Sticky selection: prefer current rr index if usable. Do not advance on read.
-export async function selectNextToken(): Promise<{
+export type Selection = {
   rec: TokenRecord | undefined;
   index: number;
   total: number;
-}> {
-  const tokens = await readTokens();
+};
+
+// Accounts a request may be served by; routes that relays cannot serve set
+// one on the request context
+export type AccountFilter = (t: TokenRecord) => boolean;
+
+export function setAccountFilter(c: any, accept: AccountFilter) {
+  c.set('accountFilter', accept);
+}
+
+export function getAccountFilter(c: any): AccountFilter | undefined {
+  return c.get('accountFilter');
+}
+
+export type UnavailableReason =
+  | 'disabled'
+  | 'incomplete'
+  | 'expired'
+  | 'cooldown'
+  | 'zero-weight';
+
+// Why selection skips the account right now; undefined when it is usable
+export function unavailableReason(
+  t: TokenRecord,
+  strategy: SelectionStrategy = activeStrategy()
+): UnavailableReason | undefined {
+  if (t.disabled) return 'disabled';
+  if (!isComplete(t)) return 'incomplete';
+  if (isExpired(t)) return 'expired';
+  if (isCoolingDown(t)) return 'cooldown';
+  if (strategy === 'weighted' && !((t.weight ?? 1) > 0)) return 'zero-weight';
+  return undefined;
+}
+
+const usable = (t: TokenRecord | undefined) =>
+  !!t && !t.disabled && isComplete(t) && !isCoolingDown(t) && !isExpired(t);
+
+// Usable, and its reported quota usage is below the rotation threshold
+const fresh = (t: TokenRecord | undefined) =>
+  usable(t) && 100 - headroomPercent(t!) < QUOTA_THRESHOLD_PERCENT;
+
+// Usable account with the most quota headroom left (ties go to add order)
+function mostHeadroom(
+  tokens: TokenRecord[],
+  skip?: (idx: number) => boolean
+): number | undefined {
+  const candidates: number[] = [];
+  tokens.forEach((t, i) => {
+    if (!skip?.(i) && usable(t)) candidates.push(i);
+  });
+  return pickMin(candidates, (i) => -headroomPercent(tokens[i]));
+}
+
+// First account under the quota threshold after `start` in add order
+// (wrapping around to `start` itself); when every usable account is past the
+// threshold, the one with the most headroom
+function nextInOrder(
+  tokens: TokenRecord[],
+  start: number,
+  skip?: (idx: number) => boolean
+): number | undefined {
+  const total = tokens.length;
+  for (let i = 1; i <= total; i++) {
+    const idx = (start + i) % total;
+    if (!skip?.(idx) && fresh(tokens[idx])) return idx;
+  }
+  return mostHeadroom(tokens, skip);
+}
+
+// Smallest score wins; ties go to add order
+function pickMin(
+  candidates: number[],
+  score: (idx: number) => number
+): number | undefined {
+  let best: number | undefined;
+  let bestScore = Infinity;
+  for (const idx of candidates) {
+    const s = score(idx);
+    if (best === undefined || s < bestScore) {
+      best = idx;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
+async function pickByStrategy(
+  strategy: SelectionStrategy,
+  tokens: TokenRecord[],
+  start: number,
+  skip?: (idx: number) => boolean
+): Promise<number | undefined> {
+  const candidates: number[] = [];
+  tokens.forEach((t, i) => {
+    if (!skip?.(i) && fresh(t)) candidates.push(i);
+  });
+  if (!candidates.length) return mostHeadroom(tokens, skip);
+
+  switch (strategy) {
+    case 'least-recently-used':
+      return pickMin(candidates, (i) => {
+        const t = tokens[i].last_used ? Date.parse(tokens[i].last_used!) : 0;
+        return Number.isNaN(t) ? 0 : t;
+      });
+    case 'least-tokens': {
+      const consumed = await tokensConsumedByAccount();
+      return pickMin(candidates, (i) => consumed.get(tokens[i].id) || 0);
+    }
+    case 'weighted': {
+      const weightOf = (i: number) => {
+        const w = tokens[i].weight ?? 1;
+        return Number.isFinite(w) && w > 0 ? w : 0;
+      };
+      const sum = candidates.reduce((acc, i) => acc + weightOf(i), 0);
+      if (sum <= 0) return undefined;
+      let r = Math.random() * sum;
+      for (const i of candidates) {
+        r -= weightOf(i);
+        if (r < 0) return i;
+      }
+      return candidates[candidates.length - 1];
+    }
+    default:
+      // round-robin: the next usable account after the last one served
+      return candidates.find((i) => i > start) ?? candidates[0];
+  }
+}
+
+async function useIndex(
+  tokens: TokenRecord[],
+  idx: number,
+  moveRR: boolean,
+  affinity?: string
+): Promise<Selection> {
+  if (moveRR) setActiveIndex(idx);
+  const t = tokens[idx];
+  if (affinity) pinAccount(affinity, t.id);
+  t.last_used = new Date().toISOString();
+  patchAccount(t.id, { last_used: t.last_used });
+  return { rec: t, index: idx, total: tokens.length };
+}
+
+// Select the account for a new request according to the active strategy.
+// Sticky (default): prefer current rr index if usable. Do not advance on read.
+// Accounts past the quota threshold are not picked while others have
+// headroom. With an affinity key, the account pinned to it wins while it stays
+// usable, past the threshold too (moving would lose the upstream cache);
+// otherwise the selected account becomes the key's pin. Accounts rejected by
+// `accept` are skipped without moving the sticky account.
+export async function selectNextToken(
+  affinity?: string,
+  accept?: AccountFilter
+): Promise<Selection> {
+  const tokens = listAccounts();
   const total = tokens.length;
   if (total === 0) return { rec: undefined, index: 0, total };
-  let start = await readRR();
+  let start = activeIndex();
   if (!Number.isFinite(start) || start < 0 || start >= total) start = 0;
+  const skip = accept ? (i: number) => !accept(tokens[i]) : undefined;
 
-  const usable = (t: TokenRecord | undefined) =>
-    !!t && !t.disabled && !isCoolingDown(t) && !isExpired(t);
-
-  // Prefer current index
-  const cur = tokens[start];
-  if (usable(cur)) {
-    cur.last_used = new Date().toISOString();
-    await updateRecord(cur);
-    return { rec: cur, index: start, total };
+  const pinned = affinity ? pinnedAccountId(affinity) : undefined;
+  if (pinned) {
+    const idx = tokens.findIndex((t) => t.id === pinned);
+    if (idx >= 0 && !skip?.(idx) && usable(tokens[idx]))
+      return useIndex(tokens, idx, false);
   }
 
-  // Otherwise, find next usable and move rr pointer to it
-  for (let i = 1; i < total; i++) {
-    const idx = (start + i) % total;
-    const t = tokens[idx];
-    if (usable(t)) {
-      await writeRR(idx);
-      t.last_used = new Date().toISOString();
-      await updateRecord(t);
-      return { rec: t, index: idx, total };
-    }
+  const strategy = activeStrategy();
+  if (strategy === 'sticky') {
+    const excluded = !!skip?.(start);
+    // Prefer current index while it is under the quota threshold
+    if (!excluded && fresh(tokens[start]))
+      return useIndex(tokens, start, false, affinity);
+    // Past the threshold: move to the account with the most headroom.
+    // Otherwise, find next usable. Either way move rr pointer to it, unless
+    // the current account is only excluded for this request.
+    const idx =
+      !excluded && usable(tokens[start])
+        ? mostHeadroom(tokens, skip)
+        : nextInOrder(tokens, start, skip);
+    if (idx !== undefined)
+      return useIndex(tokens, idx, !excluded, affinity);
+    return { rec: undefined, index: start % total, total };
   }
+
+  // Other strategies pick per request; rr tracks the account served last
+  const idx = await pickByStrategy(strategy, tokens, start, skip);
+  if (idx !== undefined)
+    return useIndex(tokens, idx, idx !== start, affinity);
   return { rec: undefined, index: start % total, total };
 }
 
-// Advance rr pointer to next usable account (by add order)
-export async function advanceToNextUsableToken(): Promise<{
-  rec: TokenRecord | undefined;
-  index: number;
-  total: number;
-}> {
-  const tokens = await readTokens();
+// Fail over from the failing account (default: the current rr account) to the
+// next usable one: by add order for sticky, otherwise by the active strategy
+// with the failing account excluded. Accounts in `tried` (already used for
+// this request) or rejected by `accept` are skipped. The affinity key, if
+// any, moves along.
+export async function advanceToNextUsableToken(
+  affinity?: string,
+  from?: TokenRecord,
+  tried?: ReadonlySet<string>,
+  accept?: AccountFilter
+): Promise<Selection> {
+  const tokens = listAccounts();
   const total = tokens.length;
   if (total === 0) return { rec: undefined, index: 0, total };
-  let start = await readRR();
+  let start = from ? tokens.findIndex((t) => t.id === from.id) : -1;
+  if (start < 0) start = activeIndex();
   if (!Number.isFinite(start) || start < 0 || start >= total) start = 0;
+  const strategy = activeStrategy();
+  const skip = (i: number) =>
+    !!tried?.has(tokens[i].id) || (!!accept && !accept(tokens[i]));
 
-  const usable = (t: TokenRecord | undefined) =>
-    !!t && !t.disabled && !isCoolingDown(t) && !isExpired(t);
-
-  for (let i = 1; i <= total; i++) {
-    const idx = (start + i) % total;
-    const t = tokens[idx];
-    if (usable(t)) {
-      await writeRR(idx);
-      t.last_used = new Date().toISOString();
-      await updateRecord(t);
-      return { rec: t, index: idx, total };
-    }
+  let idx: number | undefined;
+  if (strategy === 'sticky' || strategy === 'round-robin') {
+    idx = nextInOrder(tokens, start, skip);
+  } else {
+    idx =
+      (await pickByStrategy(
+        strategy,
+        tokens,
+        start,
+        (i) => i === start || skip(i)
+      )) ?? (usable(tokens[start]) && !skip(start) ? start : undefined);
+  }
+  if (idx !== undefined) {
+    failoversTotal.inc({ result: 'switched' });
+    return useIndex(tokens, idx, true, affinity);
   }
+  failoversTotal.inc({ result: 'exhausted' });
   return { rec: undefined, index: start % total, total };
 }
@@ -1,76 +1,179 @@
-import { promises as fs } from 'fs';
-import { AUTH_DIR, TOKENS_FILE, RR_INDEX_FILE } from './config.js';
-import { ensureAuthDir } from './utils.js';
-import type { TokenRecord } from './types.js';
-
-// Simple async mutex for file operations
-class Mutex {
-  private q: Promise<void> = Promise.resolve();
-  lock<T>(fn: () => Promise<T>): Promise<T> {
-    const run = this.q.then(fn);
-    this.q = run.then(
-      () => undefined,
-      () => undefined
-    );
-    return run;
+import { STORAGE_BACKEND } from './config.js';
+import { SELECTION_STRATEGIES } from './types.js';
+import type {
+  AccountPatch,
+  ApiKeyRecord,
+  SelectionStrategy,
+  StorageBackend,
+  TokenRecord,
+  UsageRecord,
+} from './types.js';
+import {
+  configuredKey,
+  decryptRecord,
+  encryptRecord,
+  isEncrypted,
+  SECRET_FIELDS,
+} from './secrets.js';
+import { jsonBackend } from './backends/json.js';
+import { withLock } from './lock.js';
+import {
+  TOKENS_SCHEMA_VERSION,
+  upgradeAccounts,
+  validateAccounts,
+} from './schema.js';
+
+// Accounts, selection state, client keys and usage, persisted by the
+// configured backend (backends/). Secrets are encrypted and decrypted here so
+// backends only ever see the stored form. At runtime accounts are served from
+// registry.ts, which writes back through this module.
+
+let opened: Promise<StorageBackend> | undefined;
+
+async function openBackend(): Promise<StorageBackend> {
+  if (STORAGE_BACKEND === 'sqlite') {
+    const { sqliteBackend } = await import('./backends/sqlite.js');
+    return sqliteBackend();
   }
+  return jsonBackend();
+}
+
+function backend(): Promise<StorageBackend> {
+  return (opened ??= openBackend());
+}
+
+// Where the data lives, for logs
+export async function storageLocation(): Promise<string> {
+  return (await backend()).location;
+}
+
+function encrypted<T extends AccountPatch>(rec: T): T {
+  const key = configuredKey();
+  return key ? (encryptRecord(rec as TokenRecord, key) as T) : rec;
 }
-const tokenMutex = new Mutex();
-const rrMutex = new Mutex();
 
-async function atomicWrite(filePath: string, content: string) {
-  await ensureAuthDir();
-  const tmp = filePath + '.tmp';
-  await fs.writeFile(tmp, content, 'utf8');
-  await fs.rename(tmp, filePath);
+// Held for read-modify-write of the stored accounts across processes: the
+// registry's syncs and migrations, and the tokens CLI
+export const TOKENS_LOCK = 'tokens';
+export const TOKENS_LOCK_TTL_MS = 10 * 1000;
+
+// Records as stored, secret fields possibly encrypted, upgraded to the
+// current schema in memory
+export async function readStoredTokens(): Promise<TokenRecord[]> {
+  const { version, accounts } = await (await backend()).readTokens();
+  return upgradeAccounts(accounts, version);
+}
+
+export async function writeStoredTokens(tokens: TokenRecord[]) {
+  await (await backend()).writeTokens(tokens);
 }
 
+// Upgrade a store written by an older version, after backing it up. Returns
+// undefined when the store is already current.
+export async function migrateTokens() {
+  const b = await backend();
+  const { version, accounts } = await b.readTokens();
+  if (version >= TOKENS_SCHEMA_VERSION) {
+    upgradeAccounts(accounts, version); // rejects newer versions
+    return undefined;
+  }
+  const upgraded = validateAccounts(upgradeAccounts(accounts, version));
+  const backup = await b.backupTokens();
+  await b.writeTokens(upgraded);
+  return { from: version, to: TOKENS_SCHEMA_VERSION, backup };
+}
+
+// Malformed stores and decryption errors are thrown rather than read as an
+// empty list, so the accounts are never overwritten with nothing
 export async function readTokens(): Promise<TokenRecord[]> {
-  return tokenMutex.lock(async () => {
-    await ensureAuthDir();
-    try {
-      const data = await fs.readFile(TOKENS_FILE, 'utf8');
-      return JSON.parse(data);
-    } catch {
-      return [] as TokenRecord[];
-    }
-  });
+  const key = configuredKey();
+  const list = validateAccounts(await readStoredTokens());
+  return list.map((t) => decryptRecord(t, key));
+}
+
+// Notify on changes made outside this process, where the backend can tell
+export async function watchTokens(onChange: () => void) {
+  (await backend()).watchTokens?.(onChange);
 }
 
 export async function writeTokens(tokens: TokenRecord[]) {
-  await tokenMutex.lock(async () => {
-    await ensureAuthDir();
-    await atomicWrite(TOKENS_FILE, JSON.stringify(tokens, null, 2));
-  });
+  await writeStoredTokens(tokens.map((t) => encrypted(t)));
 }
 
-export async function readRR(): Promise<number> {
-  return rrMutex.lock(async () => {
-    try {
-      return parseInt(await fs.readFile(RR_INDEX_FILE, 'utf8'), 10) || 0;
-    } catch {
-      return 0;
+// Startup check: every stored secret must be readable with the configured key
+export async function checkTokenEncryption() {
+  const key = configuredKey();
+  const list = await readStoredTokens();
+  let encryptedCount = 0;
+  let plaintext = 0;
+  for (const t of list) {
+    decryptRecord(t, key);
+    for (const f of SECRET_FIELDS) {
+      if (isEncrypted(t[f])) encryptedCount++;
+      else if (t[f]) plaintext++;
     }
-  });
+  }
+  return { key, encrypted: encryptedCount, plaintext };
+}
+
+export async function readRR(): Promise<number> {
+  return (await backend()).readRR();
 }
 
 export async function writeRR(v: number) {
-  await rrMutex.lock(async () => {
-    await atomicWrite(RR_INDEX_FILE, String(v));
-  });
+  await (await backend()).writeRR(v);
+}
+
+export async function readStrategy(): Promise<SelectionStrategy> {
+  const v = await (await backend()).readStrategy();
+  if (v && (SELECTION_STRATEGIES as readonly string[]).includes(v))
+    return v as SelectionStrategy;
+  return 'sticky';
+}
+
+export async function writeStrategy(v: SelectionStrategy) {
+  await (await backend()).writeStrategy(v);
 }
 
-export async function updateRecord(updated: TokenRecord) {
-  const list = await readTokens();
-  const idx = list.findIndex((t) => t.id === updated.id);
-  if (idx >= 0) {
-    list[idx] = updated;
-    await writeTokens(list);
+// Merge fields into the stored records, leaving the rest as currently
+// stored; all patches are applied in one write
+export async function patchRecords(patches: Map<string, AccountPatch>) {
+  const fns = new Map<string, (rec: TokenRecord) => TokenRecord>();
+  for (const [id, patch] of patches) {
+    const enc = encrypted(patch);
+    fns.set(id, (rec) => ({ ...rec, ...enc }) as TokenRecord);
   }
+  await (await backend()).updateTokens(fns);
+}
+
+export async function readApiKeys(): Promise<ApiKeyRecord[]> {
+  return (await backend()).readApiKeys();
+}
+
+// Client keys are changed under a cross-process lock, so that servers
+// sharing the store never write back a stale list
+const KEYS_LOCK = 'api-keys';
+const KEYS_LOCK_TTL_MS = 10 * 1000;
+
+export async function updateApiKeys<T>(
+  fn: (keys: ApiKeyRecord[]) => { keys?: ApiKeyRecord[]; result: T }
+): Promise<T> {
+  const b = await backend();
+  return withLock(KEYS_LOCK, KEYS_LOCK_TTL_MS, () => b.updateApiKeys(fn));
+}
+
+export async function updateApiKey(
+  id: string,
+  fn: (rec: ApiKeyRecord) => ApiKeyRecord
+): Promise<ApiKeyRecord | undefined> {
+  const b = await backend();
+  return withLock(KEYS_LOCK, KEYS_LOCK_TTL_MS, () => b.updateApiKey(id, fn));
+}
+
+export async function appendUsage(entry: UsageRecord) {
+  await (await backend()).appendUsage(entry);
 }
 
-export async function removeRecord(id: string) {
-  const list = await readTokens();
-  const next = list.filter((t) => t.id !== id);
-  await writeTokens(next);
+export async function readUsage(): Promise<UsageRecord[]> {
+  return (await backend()).readUsage();
 }
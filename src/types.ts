@@ -1,25 +1,167 @@
-export type TokenRecord = {
+// How selectNextToken picks an account for each request
+export const SELECTION_STRATEGIES = [
+  'sticky',
+  'round-robin',
+  'least-recently-used',
+  'weighted',
+  'least-tokens',
+] as const;
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+// One usage window reported by the Codex backend (x-codex-primary-* /
+// x-codex-secondary-* response headers)
+export type RateLimitWindow = {
+  used_percent: number;
+  window_minutes?: number;
+  resets_at?: string;
+};
+
+// Rate-limit state from the latest upstream response that carried it
+export type RateLimitInfo = {
+  primary?: RateLimitWindow;
+  secondary?: RateLimitWindow;
+  // Retry-After of the latest failure, as an absolute time
+  retry_after?: string;
+  observed_at: string;
+};
+
+// Outcome of one health probe (see probe.ts)
+export type ProbeResult = {
+  ts: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  latency_ms: number;
+};
+
+// Health and bookkeeping state kept by the service for every account
+export type AccountHealth = {
+  disabled?: boolean;
+  cooldown_until?: string;
+  fail_count?: number;
+  last_error_code?: number;
+  rate_limits?: RateLimitInfo;
+  // health probing: consecutive failed probes, earliest next probe, recent results
+  probe_failures?: number;
+  next_probe_at?: string;
+  probes?: ProbeResult[];
+};
+
+type AccountBase = AccountHealth & {
   id: string;
-  // discriminator: oauth (default) or relay
-  type?: 'oauth' | 'relay';
-  // oauth fields
-  access_token?: string;
+  // relative share of traffic under the weighted strategy (default 1)
+  weight?: number;
+  created_at?: string;
+  last_used?: string;
+};
+
+type OAuthFields = {
+  access_token: string;
   refresh_token?: string;
   id_token?: string;
   account_id?: string;
   email?: string;
-  // relay fields
-  name?: string;
-  base_url?: string;
-  api_key?: string;
-  // common
   expire?: string;
-  created_at?: string;
   last_refresh?: string;
+};
+
+type RelayFields = {
+  name: string;
+  base_url: string;
+  api_key: string;
+};
+
+// The other type's fields are declared absent, so code handling any account
+// can still read them (as undefined) without narrowing first
+
+// ChatGPT account signed in through OAuth
+export type OAuthAccount = AccountBase &
+  OAuthFields & { type: 'oauth' } & { [K in keyof RelayFields]?: never };
+
+// OpenAI-compatible relay reached with an API key
+export type RelayAccount = AccountBase &
+  RelayFields & { type: 'relay' } & { [K in keyof OAuthFields]?: never };
+
+// Stored account; the schema version of the store is TOKENS_SCHEMA_VERSION
+// (schema.ts)
+export type TokenRecord = OAuthAccount | RelayAccount;
+
+// Changed fields of an account, as merged into the stored record
+export type AccountPatch = Partial<
+  AccountBase & OAuthFields & RelayFields & { type: TokenRecord['type'] }
+>;
+
+// Client API key issued by this service for /v1/* access
+export type ApiKeyRecord = {
+  id: string;
+  label: string;
+  // sha256 of the key; the plaintext is only returned once on creation
+  key_hash: string;
+  prefix: string;
+  created_at?: string;
   last_used?: string;
-  // health/meta
-  disabled?: boolean;
-  cooldown_until?: string;
-  fail_count?: number;
-  last_error_code?: number;
 };
+
+// One proxied request, appended to the usage log once its response completes
+export type UsageRecord = {
+  ts: string;
+  // TokenRecord.id of the account that served the request
+  account_id: string;
+  account_label?: string;
+  key_id?: string;
+  key_label?: string;
+  route: string;
+  model?: string;
+  status: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cached_tokens: number;
+  total_tokens: number;
+};
+
+// Accounts as read from the store, in the schema version they were written
+// with (see schema.ts)
+export type StoredTokens = { version: number; accounts: TokenRecord[] };
+
+// Persistence behind storage.ts (see backends/). Token records are passed in
+// their stored form, i.e. with secret fields possibly encrypted.
+export interface StorageBackend {
+  // human-readable location, for logs
+  readonly location: string;
+  readTokens(): Promise<StoredTokens>;
+  // Writes the accounts under the current schema version
+  writeTokens(tokens: TokenRecord[]): Promise<void>;
+  // Copy the accounts aside before a migration; returns where to
+  backupTokens(): Promise<string | undefined>;
+  // Call onChange when the tokens are changed by someone else (optional)
+  watchTokens?(onChange: () => void): void;
+  // Read-modify-write of one record as a single transaction; returns the
+  // stored result, or undefined when the id does not exist
+  updateToken(
+    id: string,
+    fn: (rec: TokenRecord) => TokenRecord
+  ): Promise<TokenRecord | undefined>;
+  // updateToken for several records in a single transaction; ids that do
+  // not exist are skipped
+  updateTokens(
+    fns: Map<string, (rec: TokenRecord) => TokenRecord>
+  ): Promise<void>;
+  readRR(): Promise<number>;
+  writeRR(v: number): Promise<void>;
+  readStrategy(): Promise<string | undefined>;
+  writeStrategy(v: string): Promise<void>;
+  readApiKeys(): Promise<ApiKeyRecord[]>;
+  // Atomic read-modify-write of the key list: `keys` is stored when returned
+  updateApiKeys<T>(
+    fn: (keys: ApiKeyRecord[]) => { keys?: ApiKeyRecord[]; result: T }
+  ): Promise<T>;
+  // Atomic update of one key; the stored result, or undefined when the id
+  // does not exist
+  updateApiKey(
+    id: string,
+    fn: (rec: ApiKeyRecord) => ApiKeyRecord
+  ): Promise<ApiKeyRecord | undefined>;
+  appendUsage(entry: UsageRecord): Promise<void>;
+  readUsage(): Promise<UsageRecord[]>;
+}
@@ -0,0 +1,362 @@
+import type { ApiKeyRecord, TokenRecord, UsageRecord } from './types.js';
+import { appendUsage, readUsage } from './storage.js';
+import { rememberResponse } from './affinity.js';
+
+export type TokenUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cached_tokens: number;
+  total_tokens: number;
+};
+
+// Cap on how much of a non-SSE body is buffered to look for usage
+const MAX_JSON_SCAN = 4 * 1024 * 1024;
+
+function num(v: any): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+// Pull token usage (and the response id) out of a Responses event/object or a
+// Chat Completions object
+export function extractUsage(
+  obj: any
+): { usage?: TokenUsage; model?: string; id?: string } {
+  if (!obj || typeof obj !== 'object') return {};
+  let u: any;
+  let model: string | undefined;
+  let id: string | undefined;
+  if (obj.type === 'response.completed') {
+    u = obj.response?.usage;
+    model = obj.response?.model;
+    id = obj.response?.id;
+  } else if (obj.usage) {
+    u = obj.usage;
+    model = obj.model;
+    id = obj.id;
+  }
+  if (!u || typeof u !== 'object') return { model, id };
+  // Responses shape
+  if (u.input_tokens !== undefined || u.output_tokens !== undefined) {
+    const input = num(u.input_tokens);
+    const output = num(u.output_tokens);
+    return {
+      model,
+      id,
+      usage: {
+        input_tokens: input,
+        output_tokens: output,
+        reasoning_tokens: num(u.output_tokens_details?.reasoning_tokens),
+        cached_tokens: num(u.input_tokens_details?.cached_tokens),
+        total_tokens: num(u.total_tokens) || input + output,
+      },
+    };
+  }
+  // Chat Completions shape
+  const input = num(u.prompt_tokens);
+  const output = num(u.completion_tokens);
+  return {
+    model,
+    id,
+    usage: {
+      input_tokens: input,
+      output_tokens: output,
+      reasoning_tokens: num(u.completion_tokens_details?.reasoning_tokens),
+      cached_tokens: num(u.prompt_tokens_details?.cached_tokens),
+      total_tokens: num(u.total_tokens) || input + output,
+    },
+  };
+}
+
+// Total tokens per account (TokenRecord.id), loaded from the log on first use
+// and kept current as entries are written
+let consumed: Map<string, number> | undefined;
+
+export async function tokensConsumedByAccount(): Promise<Map<string, number>> {
+  if (!consumed) {
+    const m = new Map<string, number>();
+    for (const e of await readUsage())
+      m.set(e.account_id, (m.get(e.account_id) || 0) + (e.total_tokens || 0));
+    consumed = m;
+  }
+  return consumed;
+}
+
+function accountLabel(rec: TokenRecord): string | undefined {
+  return rec.type === 'relay' ? rec.name : rec.email;
+}
+
+async function requestModel(c: any): Promise<string | undefined> {
+  try {
+    const body = await c.req.json();
+    return typeof body?.model === 'string' ? body.model : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeUsage(
+  c: any,
+  account: TokenRecord,
+  status: number,
+  model: string | undefined,
+  usage: TokenUsage | undefined
+) {
+  const key: ApiKeyRecord | undefined = c.get('clientKey');
+  const entry: UsageRecord = {
+    ts: new Date().toISOString(),
+    account_id: account.id,
+    account_label: accountLabel(account),
+    key_id: key?.id,
+    key_label: key?.label,
+    route: c.req.path,
+    model: model || (await requestModel(c)),
+    status,
+    input_tokens: usage?.input_tokens || 0,
+    output_tokens: usage?.output_tokens || 0,
+    reasoning_tokens: usage?.reasoning_tokens || 0,
+    cached_tokens: usage?.cached_tokens || 0,
+    total_tokens: usage?.total_tokens || 0,
+  };
+  if (consumed)
+    consumed.set(
+      entry.account_id,
+      (consumed.get(entry.account_id) || 0) + entry.total_tokens
+    );
+  try {
+    await appendUsage(entry);
+  } catch (e: any) {
+    console.error('Failed to record usage:', e?.message || String(e));
+  }
+}
+
+// Remember which account is serving the current request (last attempt wins)
+export function setServingAccount(c: any, rec: TokenRecord) {
+  c.set('account', rec);
+}
+
+// Wrap a response so that its body is scanned for usage as it flows to the
+// client. The entry is written against the serving account once the body ends
+// (or the client goes away). Only the first call per request records.
+export function tapUsage(c: any, resp: Response): Response {
+  const account: TokenRecord | undefined = c.get('account');
+  if (!account || c.get('usageTapped')) return resp;
+  c.set('usageTapped', true);
+  if (!resp.ok || !resp.body) {
+    writeUsage(c, account, resp.status, undefined, undefined);
+    return resp;
+  }
+
+  const isJson = !!resp.headers.get('Content-Type')?.includes('application/json');
+  const decoder = new TextDecoder();
+  let buf = '';
+  let usage: TokenUsage | undefined;
+  let model: string | undefined;
+  let responseId: string | undefined;
+  let finished = false;
+
+  const scanLine = (line: string) => {
+    if (!line.startsWith('data: ')) return;
+    try {
+      const found = extractUsage(JSON.parse(line.slice(6)));
+      if (found.usage) {
+        usage = found.usage;
+        model = found.model || model;
+        responseId = found.id || responseId;
+      }
+    } catch {}
+  };
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    if (isJson) {
+      try {
+        const found = extractUsage(JSON.parse(buf));
+        usage = found.usage;
+        model = found.model;
+        responseId = found.id;
+      } catch {
+        // Labelled JSON but actually an SSE blob (non-stream Codex responses)
+        for (const l of buf.split(/\r?\n/)) scanLine(l.trim());
+      }
+    } else if (buf) {
+      scanLine(buf.trim());
+    }
+    if (responseId) rememberResponse(c, responseId, account.id);
+    writeUsage(c, account, resp.status, model, usage);
+  };
+
+  const reader = resp.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        finish();
+        controller.close();
+        return;
+      }
+      const text = decoder.decode(value, { stream: true });
+      if (isJson) {
+        if (buf.length < MAX_JSON_SCAN) buf += text;
+      } else {
+        buf += text;
+        const lines = buf.split(/\r?\n/);
+        buf = lines.pop() || '';
+        for (const l of lines) scanLine(l.trim());
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: resp.status,
+    statusText: resp.statusText,
+    headers: resp.headers,
+  });
+}
+
+// Middleware: record usage for every proxied POST that a route did not tap itself
+export async function trackUsage(c: any, next: () => Promise<void>) {
+  await next();
+  if (c.req.method !== 'POST') return;
+  c.res = tapUsage(c, c.res);
+}
+
+export type UsageTotals = {
+  requests: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cached_tokens: number;
+  total_tokens: number;
+};
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    errors: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    reasoning_tokens: 0,
+    cached_tokens: 0,
+    total_tokens: 0,
+  };
+}
+
+function addTo(t: UsageTotals, e: UsageRecord) {
+  t.requests++;
+  if (!(e.status >= 200 && e.status < 300)) t.errors++;
+  t.input_tokens += e.input_tokens || 0;
+  t.output_tokens += e.output_tokens || 0;
+  t.reasoning_tokens += e.reasoning_tokens || 0;
+  t.cached_tokens += e.cached_tokens || 0;
+  t.total_tokens += e.total_tokens || 0;
+}
+
+function bucket(
+  map: Map<string, any>,
+  id: string,
+  init: () => Record<string, string | undefined>
+): UsageTotals {
+  let b = map.get(id);
+  if (!b) {
+    b = { ...init(), ...emptyTotals() };
+    map.set(id, b);
+  }
+  return b;
+}
+
+// Aggregate usage entries into totals plus per-account, per-model, per-key
+// and per-day (UTC) breakdowns
+export function aggregateUsage(entries: UsageRecord[], tokens: TokenRecord[]) {
+  const totals = emptyTotals();
+  const accounts = new Map<string, any>();
+  const models = new Map<string, any>();
+  const keys = new Map<string, any>();
+  const days = new Map<string, any>();
+  const known = new Map(tokens.map((t) => [t.id, t]));
+  for (const e of entries) {
+    addTo(totals, e);
+    const rec = known.get(e.account_id);
+    addTo(
+      bucket(accounts, e.account_id, () => ({
+        id: e.account_id,
+        label: rec ? accountLabel(rec) : e.account_label,
+      })),
+      e
+    );
+    const model = e.model || 'unknown';
+    addTo(bucket(models, model, () => ({ model })), e);
+    if (e.key_id)
+      addTo(
+        bucket(keys, e.key_id, () => ({ id: e.key_id, label: e.key_label })),
+        e
+      );
+    const day = e.ts.slice(0, 10);
+    addTo(bucket(days, day, () => ({ day })), e);
+  }
+  return {
+    totals,
+    accounts: [...accounts.values()].sort(
+      (a, b) => b.total_tokens - a.total_tokens
+    ),
+    models: [...models.values()].sort(
+      (a, b) => b.total_tokens - a.total_tokens
+    ),
+    keys: [...keys.values()].sort((a, b) => b.total_tokens - a.total_tokens),
+    days: [...days.values()].sort((a, b) => (a.day < b.day ? -1 : 1)),
+  };
+}
+
+function csvCell(v: any): string {
+  const s = v === undefined || v === null ? '' : String(v);
+  return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+}
+
+// CSV export: one row per day, account and model
+export function usageToCsv(entries: UsageRecord[], tokens: TokenRecord[]) {
+  const known = new Map(tokens.map((t) => [t.id, t]));
+  const rows = new Map<string, any>();
+  for (const e of entries) {
+    const day = e.ts.slice(0, 10);
+    const model = e.model || 'unknown';
+    const rec = known.get(e.account_id);
+    addTo(
+      bucket(rows, `${day}\u0000${e.account_id}\u0000${model}`, () => ({
+        day,
+        account_id: e.account_id,
+        account: rec ? accountLabel(rec) : e.account_label,
+        model,
+      })),
+      e
+    );
+  }
+  const cols = [
+    'day',
+    'account_id',
+    'account',
+    'model',
+    'requests',
+    'errors',
+    'input_tokens',
+    'output_tokens',
+    'reasoning_tokens',
+    'cached_tokens',
+    'total_tokens',
+  ];
+  const lines = [cols.join(',')];
+  const sorted = [...rows.values()].sort((a, b) =>
+    a.day === b.day
+      ? String(a.account).localeCompare(String(b.account))
+      : a.day < b.day
+      ? -1
+      : 1
+  );
+  for (const r of sorted) lines.push(cols.map((k) => csvCell(r[k])).join(','));
+  return lines.join('\n') + '\n';
+}
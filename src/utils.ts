@@ -31,13 +31,19 @@ export function randomState(): string {
   return randomBytes(24).toString('base64url');
 }
 
-export function setCookie(c: any, name: string, value: string) {
+export function setCookie(
+  c: any,
+  name: string,
+  value: string,
+  maxAgeSeconds?: number
+) {
   const attrs = [
     `${name}=${encodeURIComponent(value)}`,
     'Path=/',
     'HttpOnly',
     'SameSite=Lax',
   ];
+  if (maxAgeSeconds !== undefined) attrs.push(`Max-Age=${maxAgeSeconds}`);
   const url = new URL(c.req.url);
   if (url.protocol === 'https:') attrs.push('Secure');
   c.header('Set-Cookie', attrs.join('; '), { append: true });
@@ -107,6 +113,39 @@ export function isExpired(rec: TokenRecord): boolean {
   return Number.isNaN(t) ? false : t <= Date.now();
 }
 
+export type AccountStatus =
+  | 'unknown'
+  | 'disabled'
+  | 'cooldown'
+  | 'expired'
+  | 'expiring-soon'
+  | 'active';
+
+// Display status of an account, as shown in GET /accounts
+export function accountStatus(
+  rec: TokenRecord,
+  now = Date.now()
+): { status: AccountStatus; expires_in_seconds?: number } {
+  let status: AccountStatus = 'unknown';
+  let expires_in_seconds: number | undefined;
+  if (rec.disabled) status = 'disabled';
+  else if (rec.cooldown_until && Date.parse(rec.cooldown_until) > now)
+    status = 'cooldown';
+  else if (rec.expire) {
+    const tms = Date.parse(rec.expire);
+    if (!Number.isNaN(tms)) {
+      const diff = Math.floor((tms - now) / 1000);
+      expires_in_seconds = diff;
+      if (diff <= 0) status = 'expired';
+      else if (diff <= 5 * 60) status = 'expiring-soon';
+      else status = 'active';
+    }
+  } else {
+    status = 'active';
+  }
+  return { status, expires_in_seconds };
+}
+
 export function maskToken(token: string) {
   if (!token || token.length < 10) return token;
   return `${token.slice(0, 6)}…${token.slice(-4)}`;
@@ -0,0 +1,44 @@
+import './env.js';
+import type { SelectionStrategy, TokenRecord } from '../src/types.js';
+import {
+  addAccount,
+  listAccounts,
+  loadRegistry,
+  removeAccount,
+  setActiveIndex,
+  setStrategy,
+} from '../src/registry.js';
+
+export function oauth(id: string, extra: Partial<TokenRecord> = {}): TokenRecord {
+  return { id, type: 'oauth', access_token: `tok-${id}`, ...extra } as TokenRecord;
+}
+
+export function relay(id: string, extra: Partial<TokenRecord> = {}): TokenRecord {
+  return {
+    id,
+    type: 'relay',
+    name: id,
+    base_url: 'http://127.0.0.1:1/v1',
+    api_key: `key-${id}`,
+    ...extra,
+  } as TokenRecord;
+}
+
+export const inFuture = (ms = 60_000) => new Date(Date.now() + ms).toISOString();
+
+let loaded = false;
+
+// Replace the registry's accounts, rr index and strategy
+export async function useAccounts(
+  strategy: SelectionStrategy,
+  accounts: TokenRecord[]
+) {
+  if (!loaded) {
+    await loadRegistry();
+    loaded = true;
+  }
+  for (const t of listAccounts()) removeAccount(t.id);
+  for (const t of accounts) addAccount(t);
+  setActiveIndex(0);
+  setStrategy(strategy);
+}
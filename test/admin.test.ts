@@ -0,0 +1,98 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { Hono } from 'hono';
+import {
+  checkAdminToken,
+  loadAdminToken,
+  requireAdmin,
+  resolveAdminToken,
+} from '../src/admin.js';
+import { registerLogin } from '../src/routes/login.js';
+import { ADMIN_TOKEN_FILE } from '../src/config.js';
+
+function app() {
+  const app = new Hono();
+  registerLogin(app);
+  app.use('/accounts', requireAdmin);
+  app.get('/accounts', (c) => c.json({ ok: true }));
+  return app;
+}
+
+async function login(a: Hono, token: string) {
+  return a.request('/login', {
+    method: 'POST',
+    body: new URLSearchParams({ token }),
+  });
+}
+
+function sessionCookie(res: Response): string {
+  const m = /admin_session=([^;]*)/.exec(res.headers.get('set-cookie') || '');
+  assert.ok(m, 'no session cookie');
+  return `admin_session=${m[1]}`;
+}
+
+test('the admin token is generated once and then read back', async () => {
+  const first = await loadAdminToken();
+  assert.equal(first.source, 'generated');
+  assert.equal(readFileSync(ADMIN_TOKEN_FILE, 'utf8').trim(), first.token);
+  const again = await loadAdminToken();
+  assert.deepEqual(again, { token: first.token, source: 'file' });
+  assert.ok(checkAdminToken(first.token));
+  assert.ok(!checkAdminToken(first.token + 'x'));
+  assert.ok(!checkAdminToken(undefined));
+});
+
+test('the management API takes the token as a bearer', async () => {
+  const { token } = await loadAdminToken();
+  const a = app();
+  const ok = await a.request('/accounts', {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  assert.equal(ok.status, 200);
+  const wrong = await a.request('/accounts', {
+    headers: { Authorization: 'Bearer nope' },
+  });
+  assert.equal(wrong.status, 401);
+  assert.deepEqual(await wrong.json(), { error: 'unauthorized' });
+});
+
+test('browsers are sent to the login page', async () => {
+  const res = await app().request('/accounts', {
+    headers: { Accept: 'text/html' },
+  });
+  assert.equal(res.status, 302);
+  assert.equal(res.headers.get('location'), '/login');
+});
+
+test('signing in opens a session that logout closes', async () => {
+  const { token } = await loadAdminToken();
+  const a = app();
+  const bad = await login(a, 'nope');
+  assert.equal(bad.status, 401);
+  assert.equal(bad.headers.get('set-cookie'), null);
+
+  const res = await login(a, token);
+  assert.equal(res.status, 302);
+  const cookie = sessionCookie(res);
+  assert.match(res.headers.get('set-cookie') || '', /HttpOnly/i);
+  const ok = await a.request('/accounts', { headers: { Cookie: cookie } });
+  assert.equal(ok.status, 200);
+
+  await a.request('/logout', { method: 'POST', headers: { Cookie: cookie } });
+  const after = await a.request('/accounts', { headers: { Cookie: cookie } });
+  assert.equal(after.status, 401);
+});
+
+test('a made-up session id is refused', async () => {
+  const res = await app().request('/accounts', {
+    headers: { Cookie: 'admin_session=forged' },
+  });
+  assert.equal(res.status, 401);
+});
+
+test('the CLI resolves the token the server generated', async () => {
+  const { token } = await loadAdminToken();
+  assert.equal(await resolveAdminToken(), token);
+});
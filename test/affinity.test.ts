@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inFuture, oauth, useAccounts } from './accounts.js';
+import {
+  affinityKey,
+  pinAccount,
+  pinnedAccountId,
+  rememberResponse,
+  setAffinity,
+  upstreamSessionId,
+} from '../src/affinity.js';
+import { selectNextToken } from '../src/selection.js';
+import { patchAccount } from '../src/registry.js';
+
+// Enough of a Hono context for the affinity helpers
+function context(headers: Record<string, string> = {}) {
+  const vars = new Map<string, unknown>();
+  return {
+    req: { header: (name: string) => headers[name] },
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: unknown) => vars.set(key, value),
+  };
+}
+
+test('affinityKey prefers the session header, then the cache key, then the previous response', () => {
+  assert.equal(
+    affinityKey(context({ session_id: 's1' }), { prompt_cache_key: 'k' }),
+    'session:s1'
+  );
+  assert.equal(affinityKey(context({ 'x-session-id': 's2' }), {}), 'session:s2');
+  assert.equal(
+    affinityKey(context(), { prompt_cache_key: 'k', previous_response_id: 'r' }),
+    'cache:k'
+  );
+  assert.equal(affinityKey(context(), { previous_response_id: 'r0' }), 'response:r0');
+  assert.equal(affinityKey(context(), { input: 'hi' }), undefined);
+});
+
+test('a previous_response_id follows the key of the request that produced it', () => {
+  const c = context();
+  setAffinity(c, 'cache:chain');
+  rememberResponse(c, 'resp_chain', 'acct-x');
+  assert.equal(
+    affinityKey(context(), { previous_response_id: 'resp_chain' }),
+    'cache:chain'
+  );
+  assert.equal(pinnedAccountId('cache:chain'), 'acct-x');
+});
+
+test('the upstream session id is stable per key', () => {
+  pinAccount('session:stable', 'a');
+  const c = context();
+  setAffinity(c, 'session:stable');
+  const id = upstreamSessionId(c);
+  assert.equal(upstreamSessionId(c), id);
+  assert.equal(upstreamSessionId(context({ session_id: 'own' })), 'own');
+  assert.notEqual(upstreamSessionId(context()), upstreamSessionId(context()));
+});
+
+test('an affinity key keeps its account while it stays usable', async () => {
+  await useAccounts('round-robin', [oauth('a'), oauth('b'), oauth('c')]);
+  const first = (await selectNextToken('session-1')).rec!.id;
+  for (let i = 0; i < 3; i++)
+    assert.equal((await selectNextToken('session-1')).rec?.id, first);
+  // Other requests still rotate
+  assert.notEqual((await selectNextToken()).rec?.id, first);
+});
+
+test('an unusable pinned account gives way and the key is re-pinned', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  assert.equal((await selectNextToken('session-2')).rec?.id, 'a');
+  patchAccount('a', { cooldown_until: inFuture() });
+  assert.equal((await selectNextToken('session-2')).rec?.id, 'b');
+  assert.equal(pinnedAccountId('session-2'), 'b');
+});
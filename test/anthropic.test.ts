@@ -0,0 +1,216 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildReverseMapFromMessages,
+  convertMessagesToResponses,
+  convertResponsesBlobToMessage,
+  mapResponsesLineToMessages,
+} from '../src/anthropic.js';
+import type { MessagesStreamState } from '../src/anthropic.js';
+import { UnsupportedContentError } from '../src/converters.js';
+
+const data = (evt: any) => `data: ${JSON.stringify(evt)}`;
+
+// Messages SSE events as [event, data] pairs
+function events(chunks: string[]): [string, any][] {
+  return chunks.map((c) => {
+    const [event, payload] = c.trim().split('\n');
+    return [event.slice('event: '.length), JSON.parse(payload.slice(6))];
+  });
+}
+
+const LONG_NAME = 'mcp__server__' + 'y'.repeat(70);
+
+test('messages request: model, thinking effort, system and tools', () => {
+  const out = convertMessagesToResponses({
+    model: 'claude-sonnet-4',
+    system: [{ type: 'text', text: 'Be brief.' }],
+    thinking: { type: 'enabled', budget_tokens: 8000 },
+    tools: [{ name: LONG_NAME, input_schema: { type: 'object' } }],
+    tool_choice: { type: 'tool', name: LONG_NAME, disable_parallel_tool_use: true },
+    messages: [
+      { role: 'user', content: 'list files' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: '...', signature: 'sig' },
+          { type: 'text', text: 'Listing.' },
+          { type: 'tool_use', id: 'tu_1', name: LONG_NAME, input: { dir: '.' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'tu_1', content: 'nope', is_error: true },
+        ],
+      },
+    ],
+  });
+  assert.equal(out.model, 'gpt-5');
+  assert.deepEqual(out.reasoning, { effort: 'medium', summary: 'auto' });
+  assert.equal(out.instructions, 'Be brief.');
+  assert.equal(out.parallel_tool_calls, false);
+  const short = out.tools[0].name;
+  assert.ok(short.length <= 64);
+  assert.deepEqual(out.tool_choice, { type: 'function', name: short });
+  assert.deepEqual(out.input, [
+    { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'list files' }] },
+    {
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: 'Listing.' }],
+    },
+    { type: 'function_call', call_id: 'tu_1', name: short, arguments: '{"dir":"."}' },
+    { type: 'function_call_output', call_id: 'tu_1', output: 'Error: nope' },
+  ]);
+  assert.deepEqual(buildReverseMapFromMessages({ tools: [{ name: LONG_NAME }] }), {
+    [short]: LONG_NAME,
+  });
+
+  assert.equal(convertMessagesToResponses({ model: 'gpt-5-high' }).reasoning.effort, 'high');
+});
+
+test('messages request: unsupported blocks and server tools are rejected', () => {
+  assert.throws(
+    () =>
+      convertMessagesToResponses({
+        messages: [{ role: 'assistant', content: [{ type: 'image', source: {} }] }],
+      }),
+    (e: any) =>
+      e instanceof UnsupportedContentError && e.param === 'messages[0].content[0]'
+  );
+  assert.throws(
+    () => convertMessagesToResponses({ tools: [{ type: 'web_search_20250305' }] }),
+    (e: any) => e instanceof UnsupportedContentError && e.param === 'tools[0]'
+  );
+});
+
+test('messages response: blocks, stop reason and usage from the SSE blob', () => {
+  const original = {
+    model: 'claude-sonnet-4',
+    thinking: { type: 'enabled', budget_tokens: 2000 },
+    tools: [{ name: LONG_NAME }],
+  };
+  const short = convertMessagesToResponses(original).tools[0].name;
+  const blob = data({
+    type: 'response.completed',
+    response: {
+      id: 'resp_1',
+      usage: { input_tokens: 10, input_tokens_details: { cached_tokens: 4 }, output_tokens: 5 },
+      output: [
+        { type: 'reasoning', summary: [{ type: 'summary_text', text: 'hm' }] },
+        { type: 'message', content: [{ type: 'output_text', text: 'Here.' }] },
+        { type: 'function_call', call_id: 'call_1', name: short, arguments: '{"a":1}' },
+        { type: 'function_call', call_id: 'call_2', name: short, arguments: '{oops' },
+      ],
+    },
+  });
+  const msg = JSON.parse(convertResponsesBlobToMessage(original, blob));
+  assert.equal(msg.model, 'claude-sonnet-4');
+  assert.deepEqual(msg.content, [
+    { type: 'thinking', thinking: 'hm', signature: '' },
+    { type: 'text', text: 'Here.' },
+    { type: 'tool_use', id: 'call_1', name: LONG_NAME, input: { a: 1 } },
+    { type: 'tool_use', id: 'call_2', name: LONG_NAME, input: {} },
+  ]);
+  assert.equal(msg.stop_reason, 'tool_use');
+  assert.deepEqual(msg.usage, {
+    input_tokens: 6,
+    output_tokens: 5,
+    cache_read_input_tokens: 4,
+    cache_creation_input_tokens: 0,
+  });
+
+  const truncated = JSON.parse(
+    convertResponsesBlobToMessage(
+      {},
+      data({
+        type: 'response.completed',
+        response: { incomplete_details: { reason: 'max_output_tokens' }, output: [] },
+      })
+    )
+  );
+  assert.equal(truncated.stop_reason, 'max_tokens');
+  assert.equal(
+    JSON.parse(convertResponsesBlobToMessage({}, '')).error.type,
+    'api_error'
+  );
+});
+
+test('messages stream: block lifecycle for text and a tool call', () => {
+  const original = { model: 'claude-sonnet-4' };
+  const rev = { short_fn: 'long_fn' };
+  const state: MessagesStreamState = {};
+  const out = events(
+    [
+      { type: 'response.created', response: { id: 'resp_1' } },
+      { type: 'response.reasoning_summary_text.delta', delta: 'hidden' },
+      { type: 'response.output_text.delta', delta: 'Hel' },
+      { type: 'response.output_text.delta', delta: 'lo' },
+      {
+        type: 'response.output_item.added',
+        item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'short_fn' },
+      },
+      { type: 'response.function_call_arguments.delta', item_id: 'fc_1', delta: '{"a":1}' },
+      {
+        type: 'response.output_item.done',
+        item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'short_fn', arguments: '{"a":1}' },
+      },
+      { type: 'response.completed', response: { usage: { input_tokens: 3, output_tokens: 2 } } },
+    ].flatMap((e) => mapResponsesLineToMessages(data(e), original, rev, state))
+  );
+  assert.deepEqual(
+    out.map(([event]) => event),
+    [
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]
+  );
+  assert.equal(out[0][1].message.id, 'resp_1');
+  assert.deepEqual(out[1][1], {
+    type: 'content_block_start',
+    index: 0,
+    content_block: { type: 'text', text: '' },
+  });
+  assert.deepEqual(out[5][1].content_block, {
+    type: 'tool_use',
+    id: 'call_1',
+    name: 'long_fn',
+    input: {},
+  });
+  assert.deepEqual(out[6][1], {
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '{"a":1}' },
+  });
+  assert.equal(out[8][1].delta.stop_reason, 'tool_use');
+  assert.equal(out[8][1].usage.output_tokens, 2);
+});
+
+test('messages stream: thinking only when enabled, failures as error events', () => {
+  const original = { thinking: { type: 'enabled', budget_tokens: 1024 } };
+  const state: MessagesStreamState = {};
+  const out = events(
+    [
+      { type: 'response.reasoning_summary_text.delta', delta: 'hm' },
+      { type: 'response.failed', response: { error: { message: 'boom' } } },
+    ].flatMap((e) => mapResponsesLineToMessages(data(e), original, {}, state))
+  );
+  assert.deepEqual(
+    out.map(([event]) => event),
+    ['message_start', 'content_block_start', 'content_block_delta', 'content_block_stop', 'error']
+  );
+  assert.deepEqual(out[2][1].delta, { type: 'thinking_delta', thinking: 'hm' });
+  assert.deepEqual(out[4][1], {
+    type: 'error',
+    error: { type: 'api_error', message: 'boom' },
+  });
+});
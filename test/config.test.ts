@@ -0,0 +1,103 @@
+import { authDir } from './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// Configuration is read once at import, so each case loads it in a fresh
+// process, from its own working directory and environment
+const CONFIG = new URL('../src/config.js', import.meta.url).href;
+
+function load(env: Record<string, string>, files: Record<string, string> = {}) {
+  const cwd = mkdtempSync(path.join(authDir, 'config-'));
+  for (const [name, text] of Object.entries(files))
+    writeFileSync(path.join(cwd, name), text);
+  const clean = Object.fromEntries(
+    Object.entries(process.env).filter(
+      ([k]) => !k.startsWith('CODEX_EQUILIBRIUM_') && k !== 'PORT' && k !== 'ADMIN_TOKEN'
+    )
+  );
+  const run = spawnSync(
+    process.execPath,
+    [
+      '--input-type=module',
+      '-e',
+      `const m = await import(${JSON.stringify(CONFIG)}); console.log(JSON.stringify(m.effectiveConfig()));`,
+    ],
+    { cwd, env: { ...clean, ...env }, encoding: 'utf8' }
+  );
+  return {
+    status: run.status,
+    stderr: run.stderr,
+    config: run.status === 0 ? JSON.parse(run.stdout) : undefined,
+  };
+}
+
+test('defaults apply when nothing is configured', () => {
+  const { status, config } = load({});
+  assert.equal(status, 0);
+  assert.equal(config.file, null);
+  assert.deepEqual(config.settings.port, { value: 1456, source: 'default' });
+  assert.equal(config.settings['refresh.interval'].value, 15 * 60 * 1000);
+  assert.deepEqual(config.settings['failover.rotate'].value, [429]);
+});
+
+test('the config file is read, environment variables win over it', () => {
+  const { status, config } = load(
+    { CODEX_EQUILIBRIUM_PORT: '9000', ADMIN_TOKEN: 's3cret' },
+    {
+      'codex-equilibrium.yaml': [
+        'port: 8000',
+        'refresh:',
+        '  interval: 90s',
+        'failover:',
+        '  retry: [500, 503]',
+      ].join('\n'),
+    }
+  );
+  assert.equal(status, 0);
+  assert.match(config.file, /codex-equilibrium\.yaml$/);
+  assert.deepEqual(config.settings.port, {
+    value: 9000,
+    source: 'env',
+    env: 'CODEX_EQUILIBRIUM_PORT',
+  });
+  assert.deepEqual(config.settings['refresh.interval'], { value: 90000, source: 'file' });
+  assert.deepEqual(config.settings['failover.retry'].value, [500, 503]);
+  // Secrets are never returned
+  assert.equal(config.settings.adminToken.value, '[redacted]');
+  assert.equal(config.settings.adminToken.env, 'ADMIN_TOKEN');
+});
+
+test('a set but empty variable overrides the file and clears a list', () => {
+  const { status, config } = load(
+    { CODEX_EQUILIBRIUM_FAILOVER_REFRESH: '', CODEX_EQUILIBRIUM_FAILOVER_ROTATE: '429, 529' },
+    { 'codex-equilibrium.json': JSON.stringify({ failover: { refresh: [401] } }) }
+  );
+  assert.equal(status, 0);
+  assert.deepEqual(config.settings['failover.refresh'], {
+    value: [],
+    source: 'env',
+    env: 'CODEX_EQUILIBRIUM_FAILOVER_REFRESH',
+  });
+  assert.deepEqual(config.settings['failover.rotate'].value, [429, 529]);
+});
+
+test('invalid settings abort startup with one line each', () => {
+  const { status, stderr } = load(
+    { CODEX_EQUILIBRIUM_PORT: '', CODEX_EQUILIBRIUM_QUOTA_THRESHOLD: '120' },
+    {
+      'codex-equilibrium.json': JSON.stringify({
+        refresh: { interval: 'soon' },
+        colour: 'blue',
+      }),
+    }
+  );
+  assert.equal(status, 1);
+  assert.match(stderr, /Invalid configuration:/);
+  assert.match(stderr, /unknown setting 'colour'/);
+  assert.match(stderr, /'refresh\.interval' must be milliseconds/);
+  assert.match(stderr, /CODEX_EQUILIBRIUM_PORT must be a port number/);
+  assert.match(stderr, /CODEX_EQUILIBRIUM_QUOTA_THRESHOLD must be a percentage/);
+});
@@ -0,0 +1,321 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildReverseMapFromOpenAI,
+  convertChatChunkToCompletionsChunk,
+  convertChatCompletionsToResponses,
+  convertChatToCompletions,
+  convertCompletionsToResponses,
+  convertResponsesBlobToChat,
+  mapResponsesLineToChat,
+  mapResponsesUsageToChatChunk,
+  resolveModel,
+  UnsupportedContentError,
+} from '../src/converters.js';
+import type { ChatStreamState } from '../src/converters.js';
+
+const data = (evt: any) => `data: ${JSON.stringify(evt)}`;
+
+const LONG_NAME = 'mcp__server__' + 'x'.repeat(70);
+
+const usage = {
+  input_tokens: 10,
+  input_tokens_details: { cached_tokens: 4 },
+  output_tokens: 7,
+  output_tokens_details: { reasoning_tokens: 3 },
+  total_tokens: 17,
+};
+
+test('resolveModel maps effort aliases and other vendors', () => {
+  assert.deepEqual(resolveModel('gpt-5-high'), { model: 'gpt-5', effort: 'high' });
+  assert.deepEqual(resolveModel('codex-mini-latest'), {
+    model: 'codex-mini-latest',
+  });
+  assert.deepEqual(resolveModel('claude-sonnet-4'), { model: 'gpt-5' });
+  assert.deepEqual(resolveModel('o4-mini', true), { model: 'o4-mini' });
+  assert.deepEqual(resolveModel(undefined, true), { model: 'gpt-5' });
+});
+
+test('chat request: model, effort and instructions', () => {
+  const out = convertChatCompletionsToResponses({
+    model: 'gpt-5-minimal',
+    reasoning_effort: 'high',
+    stream: true,
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'system', content: 'Answer in French.' },
+      { role: 'user', content: 'hi' },
+    ],
+  });
+  assert.equal(out.model, 'gpt-5');
+  assert.deepEqual(out.reasoning, { effort: 'minimal', summary: 'auto' });
+  assert.equal(out.stream, true);
+  assert.equal(out.instructions, 'Be brief.');
+  assert.deepEqual(out.input, [
+    {
+      type: 'message',
+      role: 'developer',
+      content: [{ type: 'input_text', text: 'Answer in French.' }],
+    },
+    { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'hi' }] },
+  ]);
+
+  const plain = convertChatCompletionsToResponses({
+    model: 'o4-mini',
+    reasoning_effort: 'medium',
+    messages: [],
+  });
+  assert.equal(plain.model, 'o4-mini');
+  assert.equal(plain.reasoning.effort, 'medium');
+  assert.equal(plain.instructions, 'You are a helpful assistant.');
+});
+
+test('chat request: tool calls and results, long names shortened', () => {
+  const out = convertChatCompletionsToResponses({
+    tools: [
+      { type: 'function', function: { name: LONG_NAME, parameters: { type: 'object' } } },
+    ],
+    messages: [
+      { role: 'user', content: 'list files' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: LONG_NAME, arguments: '{"dir":"."}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'a.txt' },
+    ],
+  });
+  const short = out.tools[0].name;
+  assert.ok(short.length <= 64);
+  assert.deepEqual(out.input.slice(1), [
+    { type: 'function_call', call_id: 'call_1', name: short, arguments: '{"dir":"."}' },
+    { type: 'function_call_output', call_id: 'call_1', output: 'a.txt' },
+  ]);
+  assert.deepEqual(
+    buildReverseMapFromOpenAI({
+      tools: [{ type: 'function', function: { name: LONG_NAME } }],
+    }),
+    { [short]: LONG_NAME }
+  );
+});
+
+test('chat request: image and file parts become input items', () => {
+  const out = convertChatCompletionsToResponses({
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'what is this?' },
+          { type: 'image_url', image_url: { url: 'https://example.com/a.png', detail: 'low' } },
+          { type: 'image_url', image_url: 'data:image/png;base64,AAAA' },
+          { type: 'file', file: { filename: 'a.pdf', file_data: 'data:application/pdf;base64,AAAA' } },
+        ],
+      },
+    ],
+  });
+  assert.deepEqual(out.input[0].content, [
+    { type: 'input_text', text: 'what is this?' },
+    { type: 'input_image', image_url: 'https://example.com/a.png', detail: 'low' },
+    { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+    { type: 'input_file', filename: 'a.pdf', file_data: 'data:application/pdf;base64,AAAA' },
+  ]);
+});
+
+test('chat request: unsupported content is rejected with its position', () => {
+  assert.throws(
+    () =>
+      convertChatCompletionsToResponses({
+        messages: [
+          { role: 'user', content: [{ type: 'input_audio', input_audio: {} }] },
+        ],
+      }),
+    (e: any) =>
+      e instanceof UnsupportedContentError && e.param === 'messages[0].content[0]'
+  );
+  assert.throws(
+    () =>
+      convertChatCompletionsToResponses({
+        messages: [
+          { role: 'user', content: 'hi' },
+          { role: 'user', content: [{ type: 'text', text: 'see' }, { type: 'file', file: { file_id: 'file-1' } }] },
+        ],
+      }),
+    (e: any) =>
+      e instanceof UnsupportedContentError && e.param === 'messages[1].content[1]'
+  );
+});
+
+test('chat stream: deltas, one tool call and the finish reason', () => {
+  const rev = { short_fn: 'long_fn' };
+  const state: ChatStreamState = {};
+  const chunks = [
+    { type: 'response.created', response: { id: 'resp_1', model: 'gpt-5' } },
+    { type: 'response.reasoning_summary_text.delta', delta: 'hm' },
+    { type: 'response.output_text.delta', delta: 'Hel' },
+    { type: 'response.output_text.delta', delta: 'lo' },
+    {
+      type: 'response.output_item.added',
+      output_index: 1,
+      item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'short_fn' },
+    },
+    { type: 'response.function_call_arguments.delta', item_id: 'fc_1', delta: '{"a"' },
+    { type: 'response.function_call_arguments.delta', item_id: 'fc_1', delta: ':1}' },
+    {
+      type: 'response.output_item.done',
+      output_index: 1,
+      item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'short_fn', arguments: '{"a":1}' },
+    },
+    { type: 'response.completed', response: { id: 'resp_1' } },
+  ]
+    .map((e) => mapResponsesLineToChat(data(e), rev, state))
+    .filter((c): c is string => c !== undefined)
+    .map((c) => JSON.parse(c));
+
+  assert.ok(chunks.every((c) => c.id === 'resp_1' && !('usage' in c)));
+  const deltas = chunks.map((c) => c.choices[0].delta);
+  assert.deepEqual(deltas.slice(0, 3), [
+    { reasoning_content: 'hm' },
+    { content: 'Hel' },
+    { content: 'lo' },
+  ]);
+  assert.deepEqual(deltas[3].tool_calls, [
+    { index: 0, id: 'call_1', type: 'function', function: { name: 'long_fn', arguments: '' } },
+  ]);
+  // Arguments arrive once, from the deltas; output_item.done adds nothing
+  const args = deltas
+    .flatMap((d) => d.tool_calls || [])
+    .map((t: any) => t.function.arguments)
+    .join('');
+  assert.equal(args, '{"a":1}');
+  assert.equal(chunks.length, 7);
+  assert.equal(chunks[6].choices[0].finish_reason, 'tool_calls');
+
+});
+
+test('chat stream: a call seen only when done is sent whole', () => {
+  const state: ChatStreamState = {};
+  const chunk = mapResponsesLineToChat(
+    data({
+      type: 'response.output_item.done',
+      item: { type: 'function_call', call_id: 'call_9', name: 'f', arguments: '{}' },
+    }),
+    {},
+    state
+  );
+  assert.deepEqual(JSON.parse(chunk!).choices[0].delta.tool_calls, [
+    { index: 0, id: 'call_9', type: 'function', function: { name: 'f', arguments: '{}' } },
+  ]);
+  const done = mapResponsesLineToChat(
+    data({ type: 'response.completed', response: {} }),
+    {},
+    state
+  );
+  assert.equal(JSON.parse(done!).choices[0].finish_reason, 'tool_calls');
+  assert.equal(mapResponsesLineToChat('event: ping', {}, state), undefined);
+});
+
+test('chat stream: include_usage adds usage: null and a final usage chunk', () => {
+  const state: ChatStreamState = { includeUsage: true };
+  const chunk = mapResponsesLineToChat(
+    data({ type: 'response.output_text.delta', delta: 'hi' }),
+    {},
+    state
+  );
+  assert.equal(JSON.parse(chunk!).usage, null);
+
+  const final = JSON.parse(
+    mapResponsesUsageToChatChunk(
+      data({ type: 'response.completed', response: { id: 'resp_1', usage } })
+    )!
+  );
+  assert.equal(final.id, 'resp_1');
+  assert.deepEqual(final.choices, []);
+  assert.equal(final.usage.prompt_tokens, 10);
+  assert.equal(final.usage.completion_tokens, 7);
+  assert.equal(final.usage.total_tokens, 17);
+  assert.equal(final.usage.prompt_tokens_details.cached_tokens, 4);
+  assert.equal(final.usage.completion_tokens_details.reasoning_tokens, 3);
+  assert.equal(
+    mapResponsesUsageToChatChunk(data({ type: 'response.output_text.delta', delta: 'x' })),
+    undefined
+  );
+});
+
+test('chat response: text, reasoning and tool calls from the SSE blob', () => {
+  const original = { tools: [{ type: 'function', function: { name: LONG_NAME } }] };
+  const short = convertChatCompletionsToResponses(original).tools[0].name;
+  const blob = [
+    data({ type: 'response.created', response: { id: 'resp_1' } }),
+    '',
+    data({
+      type: 'response.completed',
+      response: {
+        id: 'resp_1',
+        model: 'gpt-5',
+        usage,
+        output: [
+          { type: 'reasoning', summary: [{ type: 'summary_text', text: 'thinking' }] },
+          { type: 'message', content: [{ type: 'output_text', text: 'Here.' }] },
+          { type: 'function_call', call_id: 'call_1', name: short, arguments: '{}' },
+        ],
+      },
+    }),
+  ].join('\n');
+  const chat = JSON.parse(convertResponsesBlobToChat(original, blob));
+  assert.equal(chat.id, 'resp_1');
+  assert.equal(chat.object, 'chat.completion');
+  const choice = chat.choices[0];
+  assert.equal(choice.message.content, 'Here.');
+  assert.equal(choice.message.reasoning_content, 'thinking');
+  assert.deepEqual(choice.message.tool_calls, [
+    { id: 'call_1', type: 'function', function: { name: LONG_NAME, arguments: '{}' } },
+  ]);
+  assert.equal(choice.finish_reason, 'tool_calls');
+  assert.equal(chat.usage.prompt_tokens, 10);
+  assert.equal(chat.usage.prompt_tokens_details.cached_tokens, 4);
+  assert.equal(chat.usage.completion_tokens_details.reasoning_tokens, 3);
+
+  assert.deepEqual(JSON.parse(convertResponsesBlobToChat(original, '')), {
+    error: 'invalid_upstream_response',
+  });
+});
+
+test('legacy completions: prompt and suffix in, text_completion out', () => {
+  const out = convertCompletionsToResponses({
+    model: 'gpt-5',
+    prompt: ['def add(a, b):'],
+    suffix: 'return c',
+  });
+  assert.match(out.instructions, /<prefix>/);
+  assert.equal(
+    out.input[0].content[0].text,
+    '<prefix>def add(a, b):</prefix>\n<suffix>return c</suffix>'
+  );
+  assert.throws(
+    () => convertCompletionsToResponses({ prompt: ['a', 'b'] }),
+    UnsupportedContentError
+  );
+
+  const chat = JSON.stringify({
+    id: 'c1',
+    created: 1,
+    model: 'gpt-5',
+    choices: [{ message: { content: 'x = 1' }, finish_reason: 'stop' }],
+  });
+  assert.deepEqual(JSON.parse(convertChatToCompletions(chat)).choices, [
+    { index: 0, text: 'x = 1', finish_reason: 'stop', logprobs: null },
+  ]);
+  const chunk = JSON.parse(
+    convertChatChunkToCompletionsChunk(
+      JSON.stringify({ id: 'c1', choices: [{ delta: { content: 'x' }, finish_reason: null }] })
+    )!
+  );
+  assert.equal(chunk.object, 'text_completion');
+  assert.deepEqual(chunk.choices, [{ index: 0, text: 'x', finish_reason: null }]);
+});
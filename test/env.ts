@@ -0,0 +1,18 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Imported first by every test file: configuration is read once, when
+// config.ts is first imported, so it has to be in place before that.
+// Each test file runs in its own process with its own store.
+
+const authDir = mkdtempSync(path.join(tmpdir(), 'codex-equilibrium-test-'));
+process.env.CODEX_EQUILIBRIUM_AUTH_DIR = authDir;
+process.env.CODEX_EQUILIBRIUM_STORAGE = 'json';
+process.env.CODEX_EQUILIBRIUM_STORAGE_WRITE_DELAY = '10ms';
+process.env.CODEX_EQUILIBRIUM_FAILOVER_BACKOFF_BASE = '1ms';
+process.env.CODEX_EQUILIBRIUM_FAILOVER_BACKOFF_MAX = '1ms';
+
+process.on('exit', () => rmSync(authDir, { recursive: true, force: true }));
+
+export { authDir };
@@ -0,0 +1,180 @@
+import { beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { oauth, relay, useAccounts } from './accounts.js';
+import { failoverAction, withFailover } from '../src/failover.js';
+import type { ErrorFormat } from '../src/failover.js';
+import { selectNextToken } from '../src/selection.js';
+import { getAccount } from '../src/registry.js';
+import type { TokenRecord } from '../src/types.js';
+
+// Enough of a Hono context for withFailover
+function context() {
+  const vars = new Map<string, unknown>();
+  return {
+    req: { method: 'POST', path: '/v1/responses' },
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: unknown) => vars.set(key, value),
+    json: (body: unknown, status: number) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      }),
+  };
+}
+
+// Upstream answering each account with its own list of statuses (the last
+// one repeats); 0 stands for a network error. Records the accounts used.
+function upstream(script: Record<string, number[]>) {
+  const calls: string[] = [];
+  const send = async (rec: TokenRecord) => {
+    const n = calls.filter((id) => id === rec.id).length;
+    calls.push(rec.id);
+    const statuses = script[rec.id] ?? [200];
+    const status = statuses[Math.min(n, statuses.length - 1)];
+    if (status === 0) throw new TypeError('fetch failed');
+    return new Response(`{"from":"${rec.id}"}`, { status });
+  };
+  return { calls, send };
+}
+
+async function run(script: Record<string, number[]>, format?: ErrorFormat) {
+  const c = context();
+  const { calls, send } = upstream(script);
+  const result = await withFailover(c, await selectNextToken(), send, format);
+  return { result: result!, calls };
+}
+
+const actions = (result: { attempts: { action: string }[] }) =>
+  result.attempts.map((a) => a.action);
+
+beforeEach(() => {
+  mock.restoreAll();
+  mock.method(console, 'warn', () => {});
+});
+
+test('failoverAction follows the configured status lists', () => {
+  assert.equal(failoverAction(undefined), 'retry');
+  assert.equal(failoverAction(200), 'fail');
+  assert.equal(failoverAction(503), 'retry');
+  assert.equal(failoverAction(401), 'refresh');
+  assert.equal(failoverAction(429), 'rotate');
+  assert.equal(failoverAction(404), 'fail');
+});
+
+test('no selected account: nothing is sent', async () => {
+  await useAccounts('sticky', []);
+  const { calls, send } = upstream({});
+  assert.equal(await withFailover(context(), await selectNextToken(), send), undefined);
+  assert.deepEqual(calls, []);
+});
+
+test('a success is returned as it is, without logging', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const { result, calls } = await run({});
+  assert.equal(result.resp.status, 200);
+  assert.equal(result.rec.id, 'a');
+  assert.deepEqual(actions(result), ['done']);
+  assert.deepEqual(calls, ['a']);
+  assert.equal((console.warn as any).mock.callCount(), 0);
+});
+
+test('retry statuses retry the same account, then rotate with a cooldown', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const once = await run({ a: [503, 200] });
+  assert.deepEqual(once.calls, ['a', 'a']);
+  assert.deepEqual(actions(once.result), ['retry', 'done']);
+  assert.equal((console.warn as any).mock.callCount(), 1);
+
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const twice = await run({ a: [503] });
+  assert.deepEqual(twice.calls, ['a', 'a', 'b']);
+  assert.deepEqual(actions(twice.result), ['retry', 'rotate', 'done']);
+  assert.equal(twice.result.rec.id, 'b');
+  assert.equal(await twice.result.resp.text(), '{"from":"b"}');
+  const a = getAccount('a')!;
+  assert.equal(a.last_error_code, 503);
+  assert.ok(Date.parse(a.cooldown_until!) > Date.now());
+});
+
+test('rotate statuses move on straight away', async () => {
+  await useAccounts('sticky', [relay('a'), oauth('b')]);
+  const { result, calls } = await run({ a: [429] });
+  assert.deepEqual(calls, ['a', 'b']);
+  assert.deepEqual(actions(result), ['rotate', 'done']);
+});
+
+test('refresh statuses rotate when the account cannot be refreshed', async () => {
+  // A relay, and an OAuth account without a refresh token
+  await useAccounts('sticky', [relay('a'), oauth('b'), oauth('c')]);
+  const { result, calls } = await run({ a: [401], b: [403] });
+  assert.deepEqual(calls, ['a', 'b', 'c']);
+  assert.deepEqual(actions(result), ['rotate', 'rotate', 'done']);
+});
+
+test('refresh statuses retry the account with refreshed tokens', async () => {
+  await useAccounts('sticky', [oauth('a', { refresh_token: 'r1' }), oauth('b')]);
+  const tokenRequest = mock.method(globalThis, 'fetch', async () =>
+    Response.json({ access_token: 'fresh', refresh_token: 'r2', expires_in: 3600 })
+  );
+  const c = context();
+  const tokens: string[] = [];
+  const result = await withFailover(c, await selectNextToken(), async (rec) => {
+    tokens.push(rec.access_token!);
+    return new Response('{}', { status: rec.access_token === 'fresh' ? 200 : 401 });
+  });
+  assert.equal(tokenRequest.mock.callCount(), 1);
+  assert.deepEqual(tokens, ['tok-a', 'fresh']);
+  assert.deepEqual(actions(result!), ['refresh', 'done']);
+  assert.equal(getAccount('a')?.refresh_token, 'r2');
+});
+
+test('other statuses are returned without failing over', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const { result, calls } = await run({ a: [404] });
+  assert.equal(result.resp.status, 404);
+  assert.deepEqual(calls, ['a']);
+  assert.deepEqual(actions(result), ['fail']);
+});
+
+test('the last response is returned when every account fails', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const { result, calls } = await run({ a: [429], b: [429] });
+  assert.deepEqual(calls, ['a', 'b']);
+  assert.equal(result.resp.status, 429);
+  assert.equal(result.rec.id, 'b');
+  assert.deepEqual(actions(result), ['rotate', 'fail']);
+});
+
+test('the attempt budget caps upstream requests', async () => {
+  const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  await useAccounts('sticky', ids.map((id) => oauth(id)));
+  const { result, calls } = await run(Object.fromEntries(ids.map((id) => [id, [429]])));
+  // failover.maxAttempts defaults to 6
+  assert.deepEqual(calls, ids.slice(0, 6));
+  assert.equal(result.resp.status, 429);
+  assert.equal(result.attempts.at(-1)?.action, 'fail');
+});
+
+test('network errors end in a 502, and no account is tried twice', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  const { result, calls } = await run({ a: [0], b: [0] });
+  assert.deepEqual(calls, ['a', 'a', 'b', 'b']);
+  assert.deepEqual(actions(result), ['retry', 'rotate', 'retry', 'fail']);
+  assert.equal(result.attempts[0].error, 'fetch failed');
+  assert.equal(result.resp.status, 502);
+  assert.deepEqual(await result.resp.json(), {
+    error: {
+      message: 'Upstream request failed: fetch failed',
+      type: 'server_error',
+      param: null,
+      code: 'upstream_unreachable',
+    },
+  });
+
+  await useAccounts('sticky', [oauth('a')]);
+  const shaped = await run({ a: [0] }, (message, status) => ({ status, message }));
+  assert.deepEqual(await shaped.result.resp.json(), {
+    status: 502,
+    message: 'Upstream request failed: fetch failed',
+  });
+});
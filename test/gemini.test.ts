@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildReverseMapFromGemini,
+  convertGeminiToResponses,
+  convertResponsesBlobToGemini,
+  mapResponsesLineToGemini,
+} from '../src/gemini.js';
+import type { GeminiStreamState } from '../src/gemini.js';
+import { UnsupportedContentError } from '../src/converters.js';
+
+const data = (evt: any) => `data: ${JSON.stringify(evt)}`;
+
+const LONG_NAME = 'mcp__server__' + 'z'.repeat(70);
+
+test('gemini request: model, schemas, system instruction and calls', () => {
+  const out = convertGeminiToResponses(
+    'gemini-2.5-pro',
+    {
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      tools: [
+        {
+          functionDeclarations: [
+            {
+              name: LONG_NAME,
+              parameters: {
+                type: 'OBJECT',
+                properties: { dir: { type: 'STRING', nullable: true } },
+              },
+            },
+          ],
+        },
+      ],
+      toolConfig: {
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [LONG_NAME] },
+      },
+      generationConfig: { responseMimeType: 'application/json' },
+      contents: [
+        { role: 'user', parts: [{ text: 'list files' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'thought', thought: true },
+            { functionCall: { name: LONG_NAME, args: { dir: '.' } } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: LONG_NAME, response: { files: [] } } }],
+        },
+      ],
+    },
+    true
+  );
+  assert.equal(out.model, 'gpt-5');
+  assert.equal(out.stream, true);
+  assert.equal(out.instructions, 'Be brief.');
+  assert.deepEqual(out.text, { format: { type: 'json_object' } });
+  const short = out.tools[0].name;
+  assert.ok(short.length <= 64);
+  assert.deepEqual(out.tools[0].parameters, {
+    type: 'object',
+    properties: { dir: { type: ['string', 'null'] } },
+  });
+  assert.deepEqual(out.tool_choice, { type: 'function', name: short });
+  // The call had no id: its response is matched to it by name
+  assert.deepEqual(out.input.slice(1), [
+    { type: 'function_call', call_id: 'call_1', name: short, arguments: '{"dir":"."}' },
+    { type: 'function_call_output', call_id: 'call_1', output: '{"files":[]}' },
+  ]);
+  assert.deepEqual(
+    buildReverseMapFromGemini({ tools: [{ functionDeclarations: [{ name: LONG_NAME }] }] }),
+    { [short]: LONG_NAME }
+  );
+
+  assert.equal(convertGeminiToResponses('gpt-5-low', {}, false).reasoning.effort, 'low');
+});
+
+test('gemini request: unsupported tools and parts are rejected', () => {
+  assert.throws(
+    () => convertGeminiToResponses('gemini-2.5-pro', { tools: [{ googleSearch: {} }] }, false),
+    (e: any) => e instanceof UnsupportedContentError && e.param === 'tools[0]'
+  );
+  assert.throws(
+    () =>
+      convertGeminiToResponses(
+        'gemini-2.5-pro',
+        { contents: [{ role: 'user', parts: [{ executableCode: {} }] }] },
+        false
+      ),
+    (e: any) =>
+      e instanceof UnsupportedContentError && e.param === 'contents[0].parts[0]'
+  );
+});
+
+test('gemini response: parts, finish reason and usage from the SSE blob', () => {
+  const original = { tools: [{ functionDeclarations: [{ name: LONG_NAME }] }] };
+  const short = convertGeminiToResponses('gemini-2.5-pro', original, false).tools[0].name;
+  const blob = data({
+    type: 'response.completed',
+    response: {
+      id: 'resp_1',
+      usage: {
+        input_tokens: 10,
+        output_tokens: 7,
+        output_tokens_details: { reasoning_tokens: 3 },
+        total_tokens: 17,
+      },
+      output: [
+        { type: 'message', content: [{ type: 'output_text', text: 'Here.' }] },
+        { type: 'function_call', call_id: 'call_1', name: short, arguments: '{"a":1}' },
+      ],
+    },
+  });
+  const resp = JSON.parse(convertResponsesBlobToGemini(original, 'gemini-2.5-pro', blob));
+  assert.deepEqual(resp.candidates[0].content.parts, [
+    { text: 'Here.' },
+    { functionCall: { name: LONG_NAME, args: { a: 1 }, id: 'call_1' } },
+  ]);
+  assert.equal(resp.candidates[0].finishReason, 'STOP');
+  assert.deepEqual(resp.usageMetadata, {
+    promptTokenCount: 10,
+    candidatesTokenCount: 4,
+    totalTokenCount: 17,
+    thoughtsTokenCount: 3,
+  });
+  assert.equal(resp.modelVersion, 'gemini-2.5-pro');
+  assert.equal(resp.responseId, 'resp_1');
+
+  assert.deepEqual(JSON.parse(convertResponsesBlobToGemini({}, 'm', '')).error.code, 502);
+});
+
+test('gemini stream: text chunks, whole function calls, final chunk', () => {
+  const rev = { short_fn: 'long_fn' };
+  const state: GeminiStreamState = {};
+  const chunks = [
+    { type: 'response.created', response: { id: 'resp_1' } },
+    { type: 'response.output_text.delta', delta: 'Hi' },
+    { type: 'response.function_call_arguments.delta', item_id: 'fc_1', delta: '{' },
+    {
+      type: 'response.output_item.done',
+      item: { type: 'function_call', call_id: 'call_1', name: 'short_fn', arguments: '{"a":1}' },
+    },
+    {
+      type: 'response.completed',
+      response: { incomplete_details: { reason: 'max_output_tokens' }, usage: { input_tokens: 1, output_tokens: 2 } },
+    },
+  ]
+    .map((e) => mapResponsesLineToGemini(data(e), 'gemini-2.5-pro', rev, state))
+    .filter((c) => c !== undefined);
+  assert.equal(chunks.length, 3);
+  assert.ok(chunks.every((c) => c.responseId === 'resp_1'));
+  assert.deepEqual(chunks[0].candidates[0].content.parts, [{ text: 'Hi' }]);
+  assert.deepEqual(chunks[1].candidates[0].content.parts, [
+    { functionCall: { name: 'long_fn', args: { a: 1 }, id: 'call_1' } },
+  ]);
+  assert.equal(chunks[2].candidates[0].finishReason, 'MAX_TOKENS');
+  assert.equal(chunks[2].usageMetadata.totalTokenCount, 3);
+
+  assert.deepEqual(
+    mapResponsesLineToGemini(
+      data({ type: 'response.failed', response: { error: { message: 'boom' } } }),
+      'm',
+      {},
+      state
+    ),
+    { error: { code: 500, message: 'boom', status: 'INTERNAL' } }
+  );
+});
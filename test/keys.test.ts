@@ -0,0 +1,90 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import {
+  findApiKey,
+  generateApiKey,
+  hashApiKey,
+  newApiKeyRecord,
+  requireClientKey,
+} from '../src/keys.js';
+import { readApiKeys, updateApiKeys } from '../src/storage.js';
+
+async function storeKey(id: string, label: string) {
+  const key = generateApiKey();
+  const rec = newApiKeyRecord(id, label, key);
+  await updateApiKeys((keys) => ({ keys: [...keys, rec], result: undefined }));
+  return key;
+}
+
+function app() {
+  const app = new Hono();
+  app.use('/v1/*', requireClientKey);
+  app.use('/v1beta/*', requireClientKey);
+  app.all('*', (c: any) => c.json({ id: c.get('clientKey').id }));
+  return app;
+}
+
+test('records keep only the hash and a masked prefix', () => {
+  const key = generateApiKey();
+  assert.match(key, /^ce-[A-Za-z0-9_-]{32}$/);
+  assert.notEqual(generateApiKey(), key);
+  const rec = newApiKeyRecord('k1', 'laptop', key);
+  assert.equal(rec.key_hash, hashApiKey(key));
+  assert.match(rec.key_hash, /^[0-9a-f]{64}$/);
+  assert.ok(!JSON.stringify(rec).includes(key));
+  assert.ok(rec.prefix.startsWith('ce-'));
+});
+
+test('findApiKey matches by hash and stamps last_used once', async () => {
+  const key = await storeKey('lookup', 'lookup');
+  assert.equal(await findApiKey(key + 'x'), undefined);
+  const rec = await findApiKey(key);
+  assert.equal(rec?.id, 'lookup');
+  const stamped = rec?.last_used;
+  assert.ok(stamped);
+  assert.equal((await findApiKey(key))?.last_used, stamped);
+  const stored = (await readApiKeys()).find((k) => k.id === 'lookup');
+  assert.equal(stored?.last_used, stamped);
+});
+
+test('requireClientKey accepts each client header style', async () => {
+  const key = await storeKey('headers', 'headers');
+  const a = app();
+  const ok = [
+    a.request('/v1/responses', { headers: { Authorization: `Bearer ${key}` } }),
+    a.request('/v1/messages', { headers: { 'x-api-key': key } }),
+    a.request('/v1beta/models', { headers: { 'x-goog-api-key': key } }),
+    a.request(`/v1beta/models?key=${key}`),
+  ];
+  for (const res of await Promise.all(ok)) {
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { id: 'headers' });
+  }
+  // ?key= is only a Gemini convention
+  assert.equal((await a.request(`/v1/responses?key=${key}`)).status, 401);
+});
+
+test('requireClientKey rejects missing and unknown keys', async () => {
+  const a = app();
+  const missing = await a.request('/v1/responses');
+  assert.equal(missing.status, 401);
+  assert.match((await missing.json()).error.message, /didn't provide/);
+  const wrong = await a.request('/v1/responses', {
+    headers: { Authorization: 'Bearer ce-nope' },
+  });
+  assert.equal(wrong.status, 401);
+  const body = await wrong.json();
+  assert.equal(body.error.code, 'invalid_api_key');
+  assert.match(body.error.message, /Incorrect/);
+});
+
+test('a revoked key stops working', async () => {
+  const key = await storeKey('revoked', 'revoked');
+  await updateApiKeys((keys) => ({
+    keys: keys.filter((k) => k.id !== 'revoked'),
+    result: undefined,
+  }));
+  assert.equal(await findApiKey(key), undefined);
+});
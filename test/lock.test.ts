@@ -0,0 +1,63 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tryLock, withLock } from '../src/lock.js';
+import { LOCK_DIR } from '../src/config.js';
+
+const TTL_MS = 60_000;
+
+// A lock held by another process, last touched `ageMs` ago
+async function foreignLock(name: string, ageMs: number) {
+  const file = path.join(LOCK_DIR, name + '.lock');
+  await fs.mkdir(LOCK_DIR, { recursive: true });
+  await fs.writeFile(file, 'elsewhere:1:owner');
+  const at = new Date(Date.now() - ageMs);
+  await fs.utimes(file, at, at);
+  return file;
+}
+
+test('a held lock is not handed out again until released', async () => {
+  const release = await tryLock('held', TTL_MS);
+  assert.ok(release);
+  assert.equal(await tryLock('held', TTL_MS), undefined);
+  await release();
+  const again = await tryLock('held', TTL_MS);
+  assert.ok(again);
+  await again();
+});
+
+test('a live lock of another process is left alone', async () => {
+  const file = await foreignLock('live', 1000);
+  assert.equal(await tryLock('live', TTL_MS), undefined);
+  assert.equal(await fs.readFile(file, 'utf8'), 'elsewhere:1:owner');
+});
+
+test('an abandoned lock is taken over', async () => {
+  const file = await foreignLock('stale', 2 * TTL_MS);
+  const release = await tryLock('stale', TTL_MS);
+  assert.ok(release);
+  assert.notEqual(await fs.readFile(file, 'utf8'), 'elsewhere:1:owner');
+  // Only one of several takers gets it
+  assert.equal(await tryLock('stale', TTL_MS), undefined);
+  await release();
+  await assert.rejects(fs.access(file));
+  // Nothing is left behind from the takeover
+  assert.deepEqual(
+    (await fs.readdir(LOCK_DIR)).filter((f) => f.startsWith('stale')),
+    []
+  );
+});
+
+test('withLock runs holders one at a time', async () => {
+  const order: string[] = [];
+  const hold = (id: string) =>
+    withLock('serial', TTL_MS, async () => {
+      order.push(`${id} in`);
+      await new Promise((r) => setTimeout(r, 20));
+      order.push(`${id} out`);
+    });
+  await Promise.all([hold('a'), hold('b')]);
+  assert.deepEqual(order, ['a in', 'a out', 'b in', 'b out']);
+});
@@ -0,0 +1,80 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import { renderMetrics, routeLabel, trackMetrics } from '../src/metrics.js';
+import { withFailover } from '../src/failover.js';
+import type { TokenRecord } from '../src/types.js';
+
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find((l) => l.startsWith(series + ' '));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+test('routeLabel keeps known routes and folds the rest', () => {
+  assert.equal(routeLabel('/v1/responses'), '/v1/responses');
+  assert.equal(routeLabel('/v1/messages'), '/v1/messages');
+  assert.equal(routeLabel('/v1/files/abc'), '/v1/*');
+  assert.equal(
+    routeLabel('/v1beta/models/gemini-2.5-pro:streamGenerateContent'),
+    '/v1beta/models/*:streamGenerateContent'
+  );
+  assert.equal(routeLabel('/v1beta/models'), '/v1beta/*');
+});
+
+test('requests are counted by route and client status, with SSE time to first byte', async () => {
+  const app = new Hono();
+  app.use('/v1/*', trackMetrics);
+  app.post('/v1/responses', (c) =>
+    c.body('data: {}\n\n', 200, { 'Content-Type': 'text/event-stream' })
+  );
+  app.post('/v1/files/:id', (c) => c.json({ error: 'nope' }, 404));
+  await (await app.request('/v1/responses', { method: 'POST' })).text();
+  await app.request('/v1/files/a', { method: 'POST' });
+  await app.request('/v1/files/b', { method: 'POST' });
+
+  const text = renderMetrics([]);
+  const requests = 'codex_equilibrium_requests_total';
+  assert.equal(sample(text, `${requests}{route="/v1/responses",status="200"}`), 1);
+  assert.equal(sample(text, `${requests}{route="/v1/*",status="404"}`), 2);
+  assert.equal(
+    sample(text, 'codex_equilibrium_stream_ttfb_seconds_count{route="/v1/responses"}'),
+    1
+  );
+  assert.equal(
+    sample(
+      text,
+      'codex_equilibrium_request_duration_seconds_bucket{route="/v1/*",status="404",le="+Inf"}'
+    ),
+    2
+  );
+});
+
+test('upstream statuses are counted per account and attempt', async () => {
+  const rec = { id: 'acct-up', type: 'oauth' } as TokenRecord;
+  const c = {
+    req: { method: 'POST', path: '/v1/responses' },
+    get: () => undefined,
+  };
+  for (const status of [200, 404, 404]) {
+    const result = await withFailover(
+      c,
+      { rec, index: 0, total: 1 },
+      async () => new Response(null, { status })
+    );
+    assert.equal(result?.resp.status, status);
+  }
+  const text = renderMetrics([]);
+  const upstream = 'codex_equilibrium_upstream_responses_total';
+  assert.equal(sample(text, `${upstream}{account="acct-up",status="200"}`), 1);
+  assert.equal(sample(text, `${upstream}{account="acct-up",status="404"}`), 2);
+});
+
+test('gauges are rendered with escaped labels', () => {
+  const text = renderMetrics([
+    { name: 'accounts', help: 'Accounts by state.', values: [[{ state: 'a"b' }, 3]] },
+  ]);
+  assert.match(text, /# TYPE codex_equilibrium_accounts gauge\n/);
+  assert.equal(sample(text, 'codex_equilibrium_accounts{state="a\\"b"}'), 3);
+  assert.ok(text.endsWith('\n'));
+});
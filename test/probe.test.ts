@@ -0,0 +1,79 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inFuture, oauth, relay, useAccounts } from './accounts.js';
+import { probeAccount, probeDueAccounts } from '../src/probe.js';
+import { getAccount } from '../src/registry.js';
+import { PROBE_BACKOFF_BASE_MS, PROBE_BACKOFF_MAX_MS } from '../src/config.js';
+
+// Answer every probe with `status`, recording the URLs
+function upstream(status: number) {
+  const urls: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    urls.push(String(url));
+    return new Response(null, { status });
+  });
+  return urls;
+}
+
+afterEach(() => mock.restoreAll());
+
+test('failed probes back off exponentially up to the maximum', async () => {
+  await useAccounts('sticky', [relay('r', { fail_count: 1 })]);
+  upstream(503);
+  const delays: number[] = [];
+  for (let i = 0; i < 10; i++) {
+    const result = await probeAccount(getAccount('r')!);
+    assert.equal(result.ok, false);
+    const rec = getAccount('r')!;
+    delays.push(Date.parse(rec.next_probe_at!) - Date.parse(result.ts));
+  }
+  assert.deepEqual(delays.slice(0, 3), [
+    PROBE_BACKOFF_BASE_MS,
+    2 * PROBE_BACKOFF_BASE_MS,
+    4 * PROBE_BACKOFF_BASE_MS,
+  ]);
+  assert.equal(delays[9], PROBE_BACKOFF_MAX_MS);
+  const rec = getAccount('r')!;
+  assert.equal(rec.probe_failures, 10);
+  assert.equal(rec.last_error_code, 503);
+  assert.equal(rec.probes?.length, 10);
+  // The account stays out at least until the next probe
+  assert.ok(Date.parse(rec.cooldown_until!) >= Date.parse(rec.next_probe_at!));
+});
+
+test('a later cooldown is not shortened by the probe backoff', async () => {
+  const until = inFuture(24 * 60 * 60 * 1000);
+  await useAccounts('sticky', [relay('r', { cooldown_until: until })]);
+  upstream(500);
+  await probeAccount(getAccount('r')!);
+  assert.equal(getAccount('r')!.cooldown_until, until);
+});
+
+test('a successful probe restores the account', async () => {
+  await useAccounts('sticky', [
+    relay('r', { cooldown_until: inFuture(), fail_count: 3, probe_failures: 2, last_error_code: 502 }),
+  ]);
+  const urls = upstream(200);
+  const result = await probeAccount(getAccount('r')!);
+  assert.equal(result.ok, true);
+  assert.deepEqual(urls, ['http://127.0.0.1:1/v1/models']);
+  const rec = getAccount('r')!;
+  assert.equal(rec.cooldown_until, undefined);
+  assert.equal(rec.fail_count, 0);
+  assert.equal(rec.probe_failures, 0);
+  assert.equal(rec.next_probe_at, undefined);
+  assert.equal(rec.probes?.[0].status, 200);
+});
+
+test('only due accounts are probed', async () => {
+  await useAccounts('sticky', [
+    oauth('healthy'),
+    oauth('disabled', { disabled: true, fail_count: 1 }),
+    oauth('later', { cooldown_until: inFuture(), next_probe_at: inFuture() }),
+    oauth('reset', { cooldown_until: inFuture(), rate_limits: { observed_at: '', retry_after: inFuture() } }),
+    relay('due', { cooldown_until: inFuture() }),
+  ]);
+  const urls = upstream(200);
+  await probeDueAccounts();
+  assert.deepEqual(urls, ['http://127.0.0.1:1/v1/models']);
+});
@@ -0,0 +1,143 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import { oauth, relay, useAccounts } from './accounts.js';
+import { registerProxy } from '../src/proxy.js';
+import { generateApiKey, newApiKeyRecord } from '../src/keys.js';
+import { updateApiKeys } from '../src/storage.js';
+import { activeIndex } from '../src/registry.js';
+import { CHATGPT_ENDPOINT } from '../src/config.js';
+
+const app = new Hono();
+registerProxy(app);
+
+const clientKey = generateApiKey();
+const stored = updateApiKeys((keys) => ({
+  keys: [...keys, newApiKeyRecord('proxy-test', 'proxy test', clientKey)],
+  result: undefined,
+}));
+
+const completed = `data: ${JSON.stringify({
+  type: 'response.completed',
+  response: {
+    id: 'resp_1',
+    output: [{ type: 'message', content: [{ type: 'output_text', text: 'Hi.' }] }],
+  },
+})}\n\n`;
+
+// Answer every upstream request with `reply`, recording the URLs
+function upstream(reply: () => Response) {
+  const urls: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    urls.push(String(url));
+    return reply();
+  });
+  return urls;
+}
+
+async function post(path: string, body: unknown) {
+  await stored;
+  return app.request(path, {
+    method: 'POST',
+    headers: { 'x-api-key': clientKey, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const message = { model: 'claude-sonnet-4', max_tokens: 100, messages: [{ role: 'user', content: 'hi' }] };
+
+afterEach(() => mock.restoreAll());
+
+test('messages skip relays and leave the sticky account alone', async () => {
+  await useAccounts('sticky', [relay('r'), oauth('o')]);
+  const urls = upstream(
+    () => new Response(completed, { headers: { 'Content-Type': 'text/event-stream' } })
+  );
+  const res = await post('/v1/messages', message);
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.equal(body.type, 'message');
+  assert.deepEqual(body.content, [{ type: 'text', text: 'Hi.' }]);
+  assert.deepEqual(urls, [`${CHATGPT_ENDPOINT}/responses`]);
+  assert.equal(activeIndex(), 0);
+});
+
+test('messages with only relays get a 503 in the Anthropic shape', async () => {
+  await useAccounts('sticky', [relay('r')]);
+  const urls = upstream(() => new Response('{}'));
+  const res = await post('/v1/messages', message);
+  assert.equal(res.status, 503);
+  const body = await res.json();
+  assert.deepEqual(body.error, {
+    type: 'overloaded_error',
+    message: 'No accounts configured that can serve this route',
+  });
+  assert.deepEqual(body.accounts, []);
+  assert.deepEqual(urls, []);
+});
+
+test('upstream errors are returned as Anthropic errors', async () => {
+  await useAccounts('sticky', [oauth('o')]);
+  upstream(() =>
+    Response.json({ error: { message: 'Unsupported model', code: 'bad_model' } }, { status: 400 })
+  );
+  let res = await post('/v1/messages', message);
+  assert.equal(res.status, 400);
+  assert.deepEqual(await res.json(), {
+    type: 'error',
+    error: { type: 'invalid_request_error', message: 'Unsupported model' },
+  });
+
+  mock.restoreAll();
+  upstream(() => Response.json({ detail: 'Not Found' }, { status: 404 }));
+  res = await post('/v1/messages', message);
+  assert.equal(res.status, 404);
+  assert.deepEqual((await res.json()).error, { type: 'not_found_error', message: 'Not Found' });
+
+  mock.restoreAll();
+  upstream(
+    () => new Response('slow down', { status: 429, headers: { 'Retry-After': '7' } })
+  );
+  res = await post('/v1/messages', message);
+  assert.equal(res.status, 429);
+  assert.equal(res.headers.get('Retry-After'), '7');
+  assert.deepEqual((await res.json()).error, { type: 'rate_limit_error', message: 'slow down' });
+});
+
+const generate = { contents: [{ role: 'user', parts: [{ text: 'hi' }] }] };
+
+test('gemini routes skip relays and stream by the method', async () => {
+  await useAccounts('round-robin', [relay('r'), oauth('o')]);
+  const delta = `data: ${JSON.stringify({ type: 'response.output_text.delta', delta: 'Hi.' })}\n\n`;
+  const urls = upstream(
+    () => new Response(delta + completed, { headers: { 'Content-Type': 'text/event-stream' } })
+  );
+  const res = await post('/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse', generate);
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get('Content-Type') || '', /text\/event-stream/);
+  assert.match(await res.text(), /^data: .*"text":"Hi\."/);
+
+  const plain = await post('/v1beta/models/gemini-2.5-pro:generateContent', generate);
+  assert.equal(plain.status, 200);
+  assert.equal((await plain.json()).candidates[0].content.parts[0].text, 'Hi.');
+  assert.deepEqual(urls, [`${CHATGPT_ENDPOINT}/responses`, `${CHATGPT_ENDPOINT}/responses`]);
+});
+
+test('gemini errors use the Google error shape', async () => {
+  await useAccounts('sticky', [relay('r')]);
+  upstream(() => new Response('{}'));
+  let res = await post('/v1beta/models/gemini-2.5-pro:generateContent', generate);
+  assert.equal(res.status, 503);
+  assert.equal((await res.json()).error.status, 'UNAVAILABLE');
+
+  await useAccounts('sticky', [oauth('o')]);
+  mock.restoreAll();
+  upstream(() =>
+    Response.json({ error: { message: 'Usage limit reached' } }, { status: 429 })
+  );
+  res = await post('/v1beta/models/gemini-2.5-pro:streamGenerateContent', generate);
+  assert.equal(res.status, 429);
+  assert.deepEqual(await res.json(), {
+    error: { code: 429, message: 'Usage limit reached', status: 'RESOURCE_EXHAUSTED' },
+  });
+});
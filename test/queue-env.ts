@@ -0,0 +1,6 @@
+import './env.js';
+
+// Waiting is off by default; turn it on, with room for one waiter, before
+// config.ts is imported
+process.env.CODEX_EQUILIBRIUM_QUEUE_MAX_WAIT = '2s';
+process.env.CODEX_EQUILIBRIUM_QUEUE_MAX_SIZE = '1';
@@ -0,0 +1,108 @@
+import './queue-env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inFuture, oauth, relay, useAccounts } from './accounts.js';
+import { noUsableAccount, queuedRequests, selectOrWait } from '../src/queue.js';
+import { patchAccount } from '../src/registry.js';
+import { QUEUE_MAX_WAIT_MS } from '../src/config.js';
+
+// Enough of a Hono context for the queue
+function context() {
+  const vars = new Map<string, unknown>();
+  return {
+    req: { raw: new Request('http://localhost/v1/responses') },
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: unknown) => vars.set(key, value),
+    json: (body: unknown, status: number, headers?: Record<string, string>) =>
+      Response.json(body, { status, headers }),
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+test('a waiting request is served when an account frees up', async () => {
+  await useAccounts('sticky', [oauth('a', { cooldown_until: inFuture(300) })]);
+  const started = Date.now();
+  const waiter = selectOrWait(context());
+  await sleep(50);
+  assert.equal(queuedRequests(), 1);
+  assert.equal((await waiter).rec?.id, 'a');
+  assert.ok(Date.now() - started >= 250);
+  assert.equal(queuedRequests(), 0);
+});
+
+test('a full queue is answered straight away', async () => {
+  await useAccounts('sticky', [oauth('a', { cooldown_until: inFuture(500) })]);
+  const waiter = selectOrWait(context());
+  await sleep(50);
+
+  const c = context();
+  const started = Date.now();
+  const sel = await selectOrWait(c);
+  assert.equal(sel.rec, undefined);
+  assert.ok(Date.now() - started < 200);
+  const res = noUsableAccount(c);
+  assert.equal(res.status, 503);
+  assert.equal(
+    (await res.json()).error.message,
+    'No usable accounts and the wait queue is full'
+  );
+  assert.equal((await waiter).rec?.id, 'a');
+});
+
+test('requests do not wait for cooldowns ending after the window', async () => {
+  await useAccounts('sticky', [
+    oauth('a', { cooldown_until: inFuture(QUEUE_MAX_WAIT_MS + 5000) }),
+  ]);
+  const started = Date.now();
+  assert.equal((await selectOrWait(context())).rec, undefined);
+  assert.ok(Date.now() - started < 200);
+  assert.equal(queuedRequests(), 0);
+});
+
+test('a waiter gives up when the cooldown is extended past the window', async () => {
+  await useAccounts('sticky', [oauth('a', { cooldown_until: inFuture(1000) })]);
+  const c = context();
+  const started = Date.now();
+  const waiter = selectOrWait(c);
+  await sleep(50);
+  patchAccount('a', { cooldown_until: inFuture(60_000) });
+  assert.equal((await waiter).rec, undefined);
+  assert.ok(Date.now() - started < QUEUE_MAX_WAIT_MS);
+  assert.equal(noUsableAccount(c).status, 503);
+});
+
+test('the 503 carries Retry-After and why each account is unavailable', async () => {
+  await useAccounts('sticky', [
+    oauth('a', { email: 'a@example.com', cooldown_until: inFuture(30_000), last_error_code: 429 }),
+    oauth('b', { disabled: true }),
+    relay('r', { cooldown_until: inFuture(90_000) }),
+  ]);
+  const res = noUsableAccount(context());
+  assert.equal(res.status, 503);
+  assert.equal(res.headers.get('retry-after'), '30');
+  const body = await res.json();
+  assert.deepEqual(body.error, {
+    message: 'No usable accounts (all disabled, cooling down or expired)',
+    type: 'server_error',
+    param: null,
+    code: 'no_usable_accounts',
+  });
+  assert.deepEqual(
+    body.accounts.map((a: any) => [a.id, a.type, a.name, a.reason, a.last_error_code]),
+    [
+      ['a', 'oauth', 'a@example.com', 'cooldown', 429],
+      ['b', 'oauth', undefined, 'disabled', undefined],
+      ['r', 'relay', 'r', 'cooldown', undefined],
+    ]
+  );
+  assert.ok(body.accounts[0].cooldown_until);
+});
+
+test('without accounts there is no Retry-After', async () => {
+  await useAccounts('sticky', []);
+  const res = noUsableAccount(context());
+  assert.equal(res.status, 503);
+  assert.equal(res.headers.get('retry-after'), null);
+  assert.equal((await res.json()).error.message, 'No accounts configured');
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { oauth, useAccounts } from './accounts.js';
+import {
+  headroomPercent,
+  limitedUntil,
+  parseRateLimits,
+  parseRetryAfter,
+  waitingForReset,
+} from '../src/ratelimit.js';
+import { markFailure } from '../src/refresh.js';
+import { getAccount } from '../src/registry.js';
+
+const now = Date.parse('2026-01-01T00:00:00Z');
+const at = (ms: number) => new Date(now + ms).toISOString();
+
+test('parseRetryAfter takes seconds or an HTTP date', () => {
+  assert.equal(parseRetryAfter('30', now), now + 30_000);
+  assert.equal(parseRetryAfter('0', now), now);
+  assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:01:00 GMT', now), now + 60_000);
+  assert.equal(parseRetryAfter('-5', now), undefined);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+  assert.equal(parseRetryAfter(null, now), undefined);
+});
+
+test('parseRateLimits reads the Codex usage windows', () => {
+  const info = parseRateLimits(
+    new Headers({
+      'x-codex-primary-used-percent': '42.5',
+      'x-codex-primary-window-minutes': '300',
+      'x-codex-primary-reset-after-seconds': '600',
+      'x-codex-secondary-used-percent': '100',
+      'retry-after': '120',
+    }),
+    now
+  );
+  assert.deepEqual(info, {
+    observed_at: at(0),
+    primary: { used_percent: 42.5, window_minutes: 300, resets_at: at(600_000) },
+    secondary: { used_percent: 100 },
+    retry_after: at(120_000),
+  });
+  assert.equal(parseRateLimits(new Headers({ 'content-type': 'text/plain' }), now), undefined);
+});
+
+test('limitedUntil: Retry-After, then exhausted windows, then the earliest reset', () => {
+  const primary = { used_percent: 100, resets_at: at(60_000) };
+  const secondary = { used_percent: 100, resets_at: at(3_600_000) };
+  const observed_at = at(0);
+  assert.equal(
+    limitedUntil({ observed_at, primary, retry_after: at(5_000) }, 503),
+    now + 5_000
+  );
+  // Both exhausted: usable only once the later one resets
+  assert.equal(limitedUntil({ observed_at, primary, secondary }, 429), now + 3_600_000);
+  assert.equal(
+    limitedUntil(
+      { observed_at, primary: { used_percent: 80, resets_at: at(60_000) }, secondary: { used_percent: 50, resets_at: at(120_000) } },
+      429
+    ),
+    now + 60_000
+  );
+  // Windows only decide for 429s
+  assert.equal(limitedUntil({ observed_at, primary }, 500), undefined);
+  assert.equal(limitedUntil(undefined, 429), undefined);
+});
+
+test('headroom and waiting for a reset', () => {
+  const rec = oauth('a', {
+    rate_limits: {
+      observed_at: at(0),
+      primary: { used_percent: 30, resets_at: at(60_000) },
+      secondary: { used_percent: 100, resets_at: at(-1) },
+    },
+  });
+  // The secondary window has reset already
+  assert.equal(headroomPercent(rec, now), 70);
+  assert.equal(waitingForReset(rec, now), false);
+  assert.equal(headroomPercent(oauth('b'), now), 100);
+  assert.ok(
+    waitingForReset(oauth('c', { rate_limits: { observed_at: at(0), retry_after: at(1) } }), now)
+  );
+});
+
+test('markFailure cools the account down until the upstream says', async () => {
+  await useAccounts('sticky', [oauth('a', { rate_limits: { observed_at: '', primary: { used_percent: 10 } } })]);
+  const before = Date.now();
+  await markFailure(getAccount('a')!, 429, new Headers({ 'retry-after': '90' }));
+  const rec = getAccount('a')!;
+  const until = Date.parse(rec.cooldown_until!);
+  assert.ok(until >= before + 90_000 && until <= Date.now() + 90_000);
+  assert.equal(rec.last_error_code, 429);
+  assert.equal(rec.fail_count, 1);
+  // Windows missing from the failed response are kept
+  assert.deepEqual(rec.rate_limits?.primary, { used_percent: 10 });
+});
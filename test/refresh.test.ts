@@ -0,0 +1,53 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { oauth, useAccounts } from './accounts.js';
+import { refreshToken } from '../src/refresh.js';
+import { getAccount, syncRegistry } from '../src/registry.js';
+import { readStoredTokens, writeStoredTokens } from '../src/storage.js';
+import { LOCK_DIR } from '../src/config.js';
+import type { TokenRecord } from '../src/types.js';
+
+afterEach(() => mock.restoreAll());
+
+test('concurrent refreshes of one account share one token request', async () => {
+  await useAccounts('sticky', [oauth('a', { refresh_token: 'r1' })]);
+  const tokenRequest = mock.method(globalThis, 'fetch', async () =>
+    Response.json({ access_token: 'fresh', refresh_token: 'r2' })
+  );
+  const rec = getAccount('a')!;
+  const [x, y] = await Promise.all([refreshToken(rec), refreshToken(rec)]);
+  assert.equal(tokenRequest.mock.callCount(), 1);
+  assert.equal(x?.access_token, 'fresh');
+  assert.equal(y?.access_token, 'fresh');
+  assert.equal(getAccount('a')?.refresh_token, 'r2');
+});
+
+test('a refresh leased by another process uses the tokens it stores', async () => {
+  await useAccounts('sticky', [oauth('b', { refresh_token: 'r1' })]);
+  await syncRegistry();
+  const tokenRequest = mock.method(globalThis, 'fetch', async () =>
+    Response.json({ access_token: 'mine', refresh_token: 'mine' })
+  );
+  const lease = path.join(LOCK_DIR, 'refresh-b.lock');
+  await fs.mkdir(LOCK_DIR, { recursive: true });
+  await fs.writeFile(lease, 'elsewhere:1:owner');
+
+  const refreshed = refreshToken(getAccount('b')!);
+  // The other process rotates the token and lets go of the lease
+  await new Promise((r) => setTimeout(r, 20));
+  await writeStoredTokens(
+    (await readStoredTokens()).map((t) =>
+      t.id === 'b'
+        ? ({ ...t, access_token: 'theirs', refresh_token: 'r2' } as TokenRecord)
+        : t
+    )
+  );
+  await fs.unlink(lease);
+
+  const rec = await refreshed;
+  assert.equal(tokenRequest.mock.callCount(), 0);
+  assert.equal(rec?.access_token, 'theirs');
+  assert.equal(rec?.refresh_token, 'r2');
+});
@@ -0,0 +1,68 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { oauth, useAccounts } from './accounts.js';
+import {
+  addAccount,
+  listAccounts,
+  patchAccount,
+  removeAccount,
+  syncRegistry,
+} from '../src/registry.js';
+import { readStoredTokens, writeStoredTokens } from '../src/storage.js';
+import { TOKENS_FILE } from '../src/config.js';
+
+// Count the writes that replace the tokens file
+function countTokenWrites() {
+  const writes: string[] = [];
+  const rename = fs.rename;
+  mock.method(fs, 'rename', (from: string, to: string) => {
+    if (to === TOKENS_FILE) writes.push(to);
+    return rename(from, to);
+  });
+  return writes;
+}
+
+afterEach(() => mock.restoreAll());
+
+test('patches are coalesced and merged into the stored records', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  await syncRegistry();
+  // Another process changes a field this one does not touch
+  const stored = await readStoredTokens();
+  await writeStoredTokens(
+    stored.map((t) => (t.id === 'b' ? { ...t, probe_failures: 4 } : t))
+  );
+
+  const writes = countTokenWrites();
+  patchAccount('a', { fail_count: 1 });
+  patchAccount('a', { last_error_code: 500 });
+  patchAccount('b', { disabled: true });
+  await syncRegistry();
+
+  assert.equal(writes.length, 1);
+  const [a, b] = await readStoredTokens();
+  assert.equal(a.fail_count, 1);
+  assert.equal(a.last_error_code, 500);
+  assert.equal(b.disabled, true);
+  assert.equal(b.probe_failures, 4);
+  // The registry adopts what was stored
+  assert.equal(listAccounts()[1].probe_failures, 4);
+});
+
+test('removing an account that is not written yet drops the add', async () => {
+  await useAccounts('sticky', [oauth('a')]);
+  await syncRegistry();
+  addAccount(oauth('new'));
+  patchAccount('new', { fail_count: 2 });
+  removeAccount('new');
+  await syncRegistry();
+  assert.deepEqual(
+    (await readStoredTokens()).map((t) => t.id),
+    ['a']
+  );
+  assert.deepEqual(
+    listAccounts().map((t) => t.id),
+    ['a']
+  );
+});
@@ -0,0 +1,81 @@
+import { authDir } from './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  accountProblems,
+  migrationsBetween,
+  SchemaError,
+  TOKENS_SCHEMA_VERSION,
+  upgradeAccounts,
+  validateAccounts,
+} from '../src/schema.js';
+import { migrateTokens, readTokens } from '../src/storage.js';
+import { TOKENS_FILE } from '../src/config.js';
+
+test('version 1 accounts get an explicit type', () => {
+  const v1 = [
+    { id: 'a', access_token: 'x' },
+    { id: 'b', type: 'relay', name: 'r', base_url: 'http://r', api_key: 'k' },
+  ];
+  assert.deepEqual(
+    upgradeAccounts(v1, 1).map((t) => t.type),
+    ['oauth', 'relay']
+  );
+  // Current accounts are left alone
+  assert.equal(upgradeAccounts(v1, TOKENS_SCHEMA_VERSION), v1);
+  assert.deepEqual(migrationsBetween(1, 2), [
+    'v2: store the account type explicitly (missing meant oauth)',
+  ]);
+  assert.deepEqual(migrationsBetween(2, 2), []);
+});
+
+test('stores from a newer version are refused', () => {
+  assert.throws(
+    () => upgradeAccounts([], TOKENS_SCHEMA_VERSION + 1),
+    (e: any) => e instanceof SchemaError && /schema version 3/.test(e.message)
+  );
+});
+
+test('validateAccounts rejects what the store cannot work with', () => {
+  assert.throws(() => validateAccounts({}), /expected an array/);
+  assert.throws(() => validateAccounts([null]), /account #0 is not an object/);
+  assert.throws(() => validateAccounts([{ id: '' }]), /account #0 has no id/);
+  assert.throws(
+    () => validateAccounts([{ id: 'a' }, { id: 'a' }]),
+    /duplicate account id a/
+  );
+  assert.deepEqual(
+    accountProblems(
+      validateAccounts([
+        { id: 'a', type: 'oauth' },
+        { id: 'b', type: 'relay', name: 'r', base_url: 'http://r', api_key: '' },
+        { id: 'c', type: 'other' },
+      ])
+    ),
+    [
+      'oauth account a: missing access_token',
+      'relay account b: missing api_key',
+      'account c: unknown type "other"',
+    ]
+  );
+});
+
+test('a version 1 store is backed up and upgraded once', async () => {
+  const v1 = JSON.stringify([{ id: 'a', access_token: 'x' }]);
+  await fs.writeFile(TOKENS_FILE, v1);
+
+  const done = await migrateTokens();
+  assert.equal(done?.from, 1);
+  assert.equal(done?.to, TOKENS_SCHEMA_VERSION);
+  assert.equal(path.dirname(done!.backup!), authDir);
+  assert.equal(await fs.readFile(done!.backup!, 'utf8'), v1);
+
+  const stored = JSON.parse(await fs.readFile(TOKENS_FILE, 'utf8'));
+  assert.equal(stored.version, TOKENS_SCHEMA_VERSION);
+  assert.deepEqual(stored.accounts, [{ id: 'a', access_token: 'x', type: 'oauth' }]);
+  assert.deepEqual(await readTokens(), stored.accounts);
+
+  assert.equal(await migrateTokens(), undefined);
+});
@@ -0,0 +1,102 @@
+import { authDir } from './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import {
+  decryptRecord,
+  decryptValue,
+  EncryptionError,
+  encryptRecord,
+  encryptValue,
+  generateKey,
+  isEncrypted,
+  keyId,
+  parseKey,
+  rewrapValue,
+} from '../src/secrets.js';
+import { readStoredTokens, readTokens, writeStoredTokens } from '../src/storage.js';
+import type { TokenRecord } from '../src/types.js';
+
+const key = parseKey(generateKey(), 'test');
+const other = parseKey(generateKey(), 'test');
+
+test('keys are 32 bytes, base64 or hex', () => {
+  assert.equal(parseKey(generateKey(), 'k').length, 32);
+  assert.deepEqual(parseKey('ab'.repeat(32), 'k'), Buffer.alloc(32, 0xab));
+  assert.throws(() => parseKey('c2hvcnQ=', 'somewhere'), (e: any) =>
+    e instanceof EncryptionError && /^somewhere: /.test(e.message)
+  );
+  assert.match(keyId(key), /^[0-9a-f]{8}$/);
+});
+
+test('values round-trip, each with its own data key', () => {
+  const a = encryptValue('secret', key);
+  const b = encryptValue('secret', key);
+  assert.ok(isEncrypted(a));
+  assert.notEqual(a, b);
+  assert.ok(a.startsWith(`enc:v1:${keyId(key)}:`));
+  assert.ok(!a.includes('secret'));
+  assert.equal(decryptValue(a, key), 'secret');
+});
+
+test('a wrong key or tampered value is an EncryptionError', () => {
+  const value = encryptValue('secret', key);
+  assert.throws(() => decryptValue(value, other), /encrypted with key/);
+  const parts = value.split(':');
+  parts[parts.length - 1] = Buffer.from('tampered data!!!!!!!').toString('base64url');
+  assert.throws(() => decryptValue(parts.join(':'), key), EncryptionError);
+  assert.throws(() => decryptValue('enc:v1:abc', key), /Malformed/);
+});
+
+test('rewrapping changes the master key but keeps the ciphertext', () => {
+  const value = encryptValue('secret', key);
+  const rewrapped = rewrapValue(value, key, other);
+  assert.equal(rewrapped.split(':').slice(-2).join(':'), value.split(':').slice(-2).join(':'));
+  assert.equal(decryptValue(rewrapped, other), 'secret');
+  assert.throws(() => decryptValue(rewrapped, key), EncryptionError);
+});
+
+test('records: only secret fields are encrypted, plaintext passes through', () => {
+  const rec = {
+    id: 'a',
+    type: 'oauth',
+    email: 'a@example.com',
+    access_token: 'at',
+    refresh_token: 'rt',
+  } as TokenRecord;
+  const enc = encryptRecord(rec, key);
+  assert.equal(enc.email, 'a@example.com');
+  assert.ok(isEncrypted(enc.access_token) && isEncrypted(enc.refresh_token));
+  assert.equal(enc.id_token, undefined);
+  // Already encrypted values are left alone
+  assert.deepEqual(encryptRecord(enc, key), enc);
+  assert.deepEqual(decryptRecord(enc, key), rec);
+  assert.deepEqual(decryptRecord(rec, undefined), rec);
+  assert.throws(() => decryptRecord(enc, undefined), /no encryption key is configured/);
+});
+
+test('the tokens CLI encrypts, rotates and decrypts the store', async () => {
+  const cli = new URL('../src/cli.js', import.meta.url).pathname;
+  const run = (env: Record<string, string>, ...args: string[]) =>
+    execFileSync(process.execPath, [cli, 'tokens', ...args], {
+      env: { ...process.env, CODEX_EQUILIBRIUM_AUTH_DIR: authDir, ...env },
+      encoding: 'utf8',
+    });
+  const k1 = generateKey();
+  const k2 = generateKey();
+  const plain = { id: 'a', type: 'relay', name: 'r', base_url: 'https://r/v1', api_key: 'sk-1' } as TokenRecord;
+  await writeStoredTokens([plain]);
+
+  assert.match(run({ CODEX_EQUILIBRIUM_ENCRYPTION_KEY: k1 }, 'encrypt'), /Encrypted/);
+  const [stored] = await readStoredTokens();
+  assert.ok(stored.api_key?.startsWith(`enc:v1:${keyId(parseKey(k1, 'k1'))}:`));
+  // This process has no key configured
+  await assert.rejects(readTokens(), EncryptionError);
+
+  run({ CODEX_EQUILIBRIUM_ENCRYPTION_KEY: k1 }, 'rotate', '--new-key', k2);
+  const [rotated] = await readStoredTokens();
+  assert.equal(decryptValue(rotated.api_key!, parseKey(k2, 'k2')), 'sk-1');
+
+  run({ CODEX_EQUILIBRIUM_ENCRYPTION_KEY: k2 }, 'decrypt');
+  assert.deepEqual(await readTokens(), [plain]);
+});
@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inFuture, oauth, relay, useAccounts } from './accounts.js';
+import {
+  advanceToNextUsableToken,
+  selectNextToken,
+  unavailableReason,
+} from '../src/selection.js';
+import { activeIndex, getAccount, patchAccount } from '../src/registry.js';
+
+const nearlyUsedUp = { primary: { used_percent: 95 }, observed_at: inFuture(0) };
+
+test('unavailableReason explains why an account is skipped', () => {
+  assert.equal(unavailableReason(oauth('a', { disabled: true })), 'disabled');
+  assert.equal(unavailableReason(relay('a', { api_key: '' } as any)), 'incomplete');
+  assert.equal(unavailableReason(oauth('a', { expire: inFuture(-1000) })), 'expired');
+  assert.equal(unavailableReason(oauth('a', { cooldown_until: inFuture() })), 'cooldown');
+  assert.equal(unavailableReason(oauth('a', { weight: 0 }), 'weighted'), 'zero-weight');
+  assert.equal(unavailableReason(oauth('a', { weight: 0 }), 'sticky'), undefined);
+});
+
+test('sticky stays on the current account and moves on when it is unusable', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b'), oauth('c')]);
+  assert.equal((await selectNextToken()).rec?.id, 'a');
+  assert.equal((await selectNextToken()).rec?.id, 'a');
+
+  await useAccounts('sticky', [
+    oauth('a', { cooldown_until: inFuture() }),
+    oauth('b', { disabled: true }),
+    relay('c'),
+  ]);
+  const sel = await selectNextToken();
+  assert.equal(sel.rec?.id, 'c');
+  assert.equal(activeIndex(), 2);
+  assert.ok(getAccount('c')?.last_used);
+});
+
+test('no usable account selects nothing', async () => {
+  await useAccounts('sticky', [oauth('a', { disabled: true })]);
+  assert.equal((await selectNextToken()).rec, undefined);
+  await useAccounts('round-robin', []);
+  assert.deepEqual(await selectNextToken(), { rec: undefined, index: 0, total: 0 });
+});
+
+test('round-robin serves the usable accounts in turn', async () => {
+  await useAccounts('round-robin', [oauth('a'), oauth('b', { disabled: true }), oauth('c')]);
+  const ids: string[] = [];
+  for (let i = 0; i < 4; i++) ids.push((await selectNextToken()).rec!.id);
+  assert.deepEqual(ids, ['c', 'a', 'c', 'a']);
+});
+
+test('least-recently-used and weighted pick by their measure', async () => {
+  await useAccounts('least-recently-used', [
+    oauth('a', { last_used: '2026-01-02T00:00:00Z' }),
+    oauth('b', { last_used: '2026-01-01T00:00:00Z' }),
+    oauth('c', { last_used: '2026-01-03T00:00:00Z' }),
+  ]);
+  assert.equal((await selectNextToken()).rec?.id, 'b');
+  // b was just used: a is now the least recent
+  assert.equal((await selectNextToken()).rec?.id, 'a');
+
+  await useAccounts('weighted', [oauth('a', { weight: 0 }), oauth('b', { weight: 1 })]);
+  for (let i = 0; i < 10; i++) assert.equal((await selectNextToken()).rec?.id, 'b');
+});
+
+test('sticky leaves an account past the quota threshold for the most headroom', async () => {
+  await useAccounts('sticky', [
+    oauth('a', { rate_limits: nearlyUsedUp }),
+    oauth('b', { rate_limits: { primary: { used_percent: 50 }, observed_at: '' } }),
+    oauth('c', { rate_limits: { primary: { used_percent: 20 }, observed_at: '' } }),
+  ]);
+  assert.equal((await selectNextToken()).rec?.id, 'c');
+  assert.equal(activeIndex(), 2);
+});
+
+test('other strategies only pick accounts past the threshold when all are', async () => {
+  await useAccounts('round-robin', [oauth('a', { rate_limits: nearlyUsedUp }), oauth('b')]);
+  for (let i = 0; i < 3; i++) assert.equal((await selectNextToken()).rec?.id, 'b');
+  await useAccounts('round-robin', [
+    oauth('a', { rate_limits: nearlyUsedUp }),
+    oauth('b', { rate_limits: { primary: { used_percent: 99 }, observed_at: '' } }),
+  ]);
+  assert.equal((await selectNextToken()).rec?.id, 'a');
+});
+
+test('a pinned account past the threshold keeps its conversation', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  assert.equal((await selectNextToken('session-q')).rec?.id, 'a');
+  patchAccount('a', { rate_limits: nearlyUsedUp });
+  assert.equal((await selectNextToken('session-q')).rec?.id, 'a');
+  // New conversations go elsewhere
+  assert.equal((await selectNextToken('session-r')).rec?.id, 'b');
+});
+
+test('advanceToNextUsableToken moves on from the failing account', async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b', { disabled: true }), oauth('c')]);
+  const a = getAccount('a')!;
+  const next = await advanceToNextUsableToken('session-2', a);
+  assert.equal(next.rec?.id, 'c');
+  assert.equal(activeIndex(), 2);
+  // The affinity key moves along
+  assert.equal((await selectNextToken('session-2')).rec?.id, 'c');
+
+  // Wraps around in add order
+  assert.equal((await advanceToNextUsableToken(undefined, getAccount('c'))).rec?.id, 'a');
+});
+
+test('advanceToNextUsableToken skips accounts already tried', async () => {
+  for (const strategy of ['sticky', 'least-recently-used'] as const) {
+    await useAccounts(strategy, [oauth('a'), oauth('b'), oauth('c')]);
+    const tried = new Set(['a', 'b']);
+    const next = await advanceToNextUsableToken(undefined, getAccount('b'), tried);
+    assert.equal(next.rec?.id, 'c', strategy);
+    tried.add('c');
+    const none = await advanceToNextUsableToken(undefined, getAccount('c'), tried);
+    assert.equal(none.rec, undefined, strategy);
+  }
+});
+
+test('advanceToNextUsableToken with a single account', async () => {
+  // Sticky wraps back to the failing account when it is still usable
+  await useAccounts('sticky', [oauth('a')]);
+  assert.equal((await advanceToNextUsableToken(undefined, getAccount('a'))).rec?.id, 'a');
+  await useAccounts('least-recently-used', [oauth('a')]);
+  assert.equal((await advanceToNextUsableToken(undefined, getAccount('a'))).rec?.id, 'a');
+  assert.equal(
+    (await advanceToNextUsableToken(undefined, getAccount('a'), new Set(['a']))).rec,
+    undefined
+  );
+});
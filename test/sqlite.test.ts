@@ -0,0 +1,107 @@
+import './env.js';
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jsonBackend } from '../src/backends/json.js';
+import { sqliteBackend } from '../src/backends/sqlite.js';
+import { newApiKeyRecord } from '../src/keys.js';
+import { TOKENS_SCHEMA_VERSION } from '../src/schema.js';
+import type { TokenRecord, UsageRecord } from '../src/types.js';
+
+// better-sqlite3 is an optional dependency
+const available = await import('better-sqlite3').then(
+  () => true,
+  () => false
+);
+const skip = available ? false : 'better-sqlite3 is not installed';
+
+const account = (id: string) =>
+  ({ id, type: 'oauth', access_token: `tok-${id}` }) as TokenRecord;
+
+const usage = {
+  ts: '2026-01-01T00:00:00.000Z',
+  account_id: 'a',
+  route: '/v1/responses',
+  status: 200,
+  input_tokens: 1,
+  output_tokens: 1,
+  reasoning_tokens: 0,
+  cached_tokens: 0,
+  total_tokens: 2,
+} as UsageRecord;
+
+// The JSON files the SQLite store starts from
+before(async () => {
+  const json = jsonBackend();
+  await json.writeTokens([account('a'), account('b')]);
+  await json.updateApiKeys(() => ({
+    keys: [newApiKeyRecord('k1', 'laptop', 'ce-secret')],
+    result: undefined,
+  }));
+  await json.appendUsage(usage);
+  await json.writeRR(1);
+  await json.writeStrategy('least-recently-used');
+});
+
+test('the JSON files are imported on first open', { skip }, async () => {
+  const db = await sqliteBackend();
+  assert.deepEqual(await db.readTokens(), {
+    version: TOKENS_SCHEMA_VERSION,
+    accounts: [account('a'), account('b')],
+  });
+  assert.deepEqual(
+    (await db.readApiKeys()).map((k) => k.label),
+    ['laptop']
+  );
+  assert.deepEqual(await db.readUsage(), [usage]);
+  assert.equal(await db.readRR(), 1);
+  assert.equal(await db.readStrategy(), 'least-recently-used');
+});
+
+test('the import happens only once', { skip }, async () => {
+  await jsonBackend().writeTokens([account('c')]);
+  const db = await sqliteBackend();
+  assert.deepEqual(
+    (await db.readTokens()).accounts.map((t) => t.id),
+    ['a', 'b']
+  );
+  // The JSON files are left alone as a backup
+  assert.deepEqual(
+    (await jsonBackend().readTokens()).accounts.map((t) => t.id),
+    ['c']
+  );
+});
+
+test('updates are stored and read back in add order', { skip }, async () => {
+  const db = await sqliteBackend();
+  const updated = await db.updateToken('b', (t) => ({ ...t, disabled: true }));
+  assert.equal(updated?.disabled, true);
+  assert.equal(await db.updateToken('missing', (t) => t), undefined);
+  await db.writeTokens([account('z'), ...(await db.readTokens()).accounts]);
+  assert.deepEqual(
+    (await db.readTokens()).accounts.map((t) => [t.id, !!t.disabled]),
+    [
+      ['z', false],
+      ['a', false],
+      ['b', true],
+    ]
+  );
+
+  const removed = await db.updateApiKeys((keys) => ({
+    keys: keys.filter((k) => k.id !== 'k1'),
+    result: keys.length,
+  }));
+  assert.equal(removed, 1);
+  assert.deepEqual(await db.readApiKeys(), []);
+
+  await db.appendUsage({ ...usage, account_id: 'z' });
+  assert.deepEqual(
+    (await db.readUsage()).map((u) => u.account_id),
+    ['a', 'z']
+  );
+});
+
+test('a backup copies the accounts aside', { skip }, async () => {
+  const db = await sqliteBackend();
+  const file = await db.backupTokens();
+  assert.match(file || '', /codex-equilibrium\.db\.v\d+-.*\.bak$/);
+});
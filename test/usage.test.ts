@@ -0,0 +1,188 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  aggregateUsage,
+  extractUsage,
+  tapUsage,
+  usageToCsv,
+} from '../src/usage.js';
+import { readUsage } from '../src/storage.js';
+import type { TokenRecord, UsageRecord } from '../src/types.js';
+
+const account = {
+  id: 'acct-1',
+  type: 'oauth',
+  email: 'one@example.com',
+} as TokenRecord;
+
+// Enough of a Hono context for tapUsage
+function context() {
+  const vars = new Map<string, unknown>([['account', account]]);
+  return {
+    req: {
+      method: 'POST',
+      path: '/v1/responses',
+      json: async () => ({ model: 'gpt-5' }),
+    },
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: unknown) => vars.set(key, value),
+  };
+}
+
+function entry(extra: Partial<UsageRecord>): UsageRecord {
+  return {
+    ts: '2025-01-01T10:00:00.000Z',
+    account_id: 'acct-1',
+    route: '/v1/responses',
+    model: 'gpt-5',
+    status: 200,
+    input_tokens: 10,
+    output_tokens: 5,
+    reasoning_tokens: 1,
+    cached_tokens: 2,
+    total_tokens: 15,
+    ...extra,
+  };
+}
+
+async function settle() {
+  await new Promise((r) => setTimeout(r, 20));
+}
+
+test('extractUsage reads the Responses and Chat Completions shapes', () => {
+  assert.deepEqual(
+    extractUsage({
+      type: 'response.completed',
+      response: {
+        id: 'resp_1',
+        model: 'gpt-5',
+        usage: {
+          input_tokens: 7,
+          output_tokens: 3,
+          input_tokens_details: { cached_tokens: 4 },
+          output_tokens_details: { reasoning_tokens: 2 },
+        },
+      },
+    }),
+    {
+      id: 'resp_1',
+      model: 'gpt-5',
+      usage: {
+        input_tokens: 7,
+        output_tokens: 3,
+        reasoning_tokens: 2,
+        cached_tokens: 4,
+        total_tokens: 10,
+      },
+    }
+  );
+  const chat = extractUsage({
+    id: 'chatcmpl-1',
+    model: 'gpt-4o',
+    usage: { prompt_tokens: 8, completion_tokens: 2, total_tokens: 11 },
+  });
+  assert.equal(chat.usage?.input_tokens, 8);
+  assert.equal(chat.usage?.total_tokens, 11);
+  assert.deepEqual(extractUsage({ type: 'response.output_text.delta' }), {
+    model: undefined,
+    id: undefined,
+  });
+});
+
+test('usage is picked out of an SSE stream split across chunks', async () => {
+  const completed = JSON.stringify({
+    type: 'response.completed',
+    response: {
+      id: 'resp_sse',
+      model: 'gpt-5-codex',
+      usage: { input_tokens: 12, output_tokens: 8, total_tokens: 20 },
+    },
+  });
+  const sse =
+    'data: {"type":"response.output_text.delta","delta":"hi"}\n\n' +
+    `data: ${completed}\n\n`;
+  const cut = sse.length - 40;
+  const enc = new TextEncoder();
+  const upstream = new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(enc.encode(sse.slice(0, cut)));
+        controller.enqueue(enc.encode(sse.slice(cut)));
+        controller.close();
+      },
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  );
+  const resp = tapUsage(context(), upstream);
+  assert.equal(await resp.text(), sse);
+  await settle();
+  const logged = (await readUsage()).find((e) => e.model === 'gpt-5-codex');
+  assert.ok(logged);
+  assert.equal(logged.account_id, 'acct-1');
+  assert.equal(logged.account_label, 'one@example.com');
+  assert.equal(logged.total_tokens, 20);
+  assert.equal(logged.status, 200);
+});
+
+test('a failed response is logged without tokens, once', async () => {
+  const c = context();
+  const before = (await readUsage()).length;
+  tapUsage(c, new Response('{"error":{}}', { status: 429 }));
+  tapUsage(c, new Response('{"error":{}}', { status: 429 }));
+  await settle();
+  const after = await readUsage();
+  assert.equal(after.length, before + 1);
+  const last = after[after.length - 1];
+  assert.equal(last.status, 429);
+  assert.equal(last.model, 'gpt-5');
+  assert.equal(last.total_tokens, 0);
+});
+
+test('aggregateUsage totals per account, model, key and day', () => {
+  const entries = [
+    entry({ key_id: 'k1', key_label: 'laptop' }),
+    entry({ model: 'gpt-4o', status: 500, total_tokens: 0 }),
+    entry({ ts: '2025-01-02T00:00:00.000Z', account_id: 'gone', account_label: 'old' }),
+  ];
+  const agg = aggregateUsage(entries, [account]);
+  assert.equal(agg.totals.requests, 3);
+  assert.equal(agg.totals.errors, 1);
+  assert.equal(agg.totals.total_tokens, 30);
+  assert.deepEqual(
+    agg.accounts.map((a) => [a.id, a.label, a.requests]),
+    [
+      ['acct-1', 'one@example.com', 2],
+      ['gone', 'old', 1],
+    ]
+  );
+  assert.deepEqual(
+    agg.models.map((m) => m.model),
+    ['gpt-5', 'gpt-4o']
+  );
+  assert.deepEqual(
+    agg.keys.map((k) => [k.label, k.requests]),
+    [['laptop', 1]]
+  );
+  assert.deepEqual(
+    agg.days.map((d) => [d.day, d.requests]),
+    [
+      ['2025-01-01', 2],
+      ['2025-01-02', 1],
+    ]
+  );
+});
+
+test('usageToCsv writes one row per day, account and model', () => {
+  const named = { ...account, email: 'a, "b"' } as TokenRecord;
+  const csv = usageToCsv(
+    [entry({}), entry({}), entry({ model: undefined })],
+    [named]
+  );
+  assert.equal(
+    csv,
+    'day,account_id,account,model,requests,errors,input_tokens,output_tokens,reasoning_tokens,cached_tokens,total_tokens\n' +
+      '2025-01-01,acct-1,"a, ""b""",gpt-5,2,0,20,10,2,4,30\n' +
+      '2025-01-01,acct-1,"a, ""b""",unknown,1,0,10,5,1,2,15\n'
+  );
+});
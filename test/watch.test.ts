@@ -0,0 +1,64 @@
+import { afterEach, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { oauth, useAccounts } from './accounts.js';
+import {
+  listAccounts,
+  patchAccount,
+  syncRegistry,
+  watchRegistry,
+} from '../src/registry.js';
+import { readTokens } from '../src/storage.js';
+import { TOKENS_FILE } from '../src/config.js';
+import { TOKENS_SCHEMA_VERSION } from '../src/schema.js';
+
+// Wait for the watcher to act on an edit
+async function until(cond: () => boolean, ms = 3000) {
+  const deadline = Date.now() + ms;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error('timed out');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+const malformed = '{"version": 2, "accounts": [';
+
+const ids = () => listAccounts().map((t) => t.id);
+
+before(async () => {
+  await useAccounts('sticky', [oauth('a'), oauth('b')]);
+  await syncRegistry();
+  await watchRegistry();
+});
+
+afterEach(() => mock.restoreAll());
+
+test('a malformed file is rejected and the last good state kept', async () => {
+  const errors = mock.method(console, 'error', () => {});
+  await fs.writeFile(TOKENS_FILE, malformed);
+  await until(() => errors.mock.callCount() > 0);
+  await assert.rejects(readTokens(), SyntaxError);
+  assert.match(
+    String(errors.mock.calls[0].arguments[0]),
+    /^Ignoring invalid accounts in .*; keeping the last good state$/
+  );
+  assert.deepEqual(ids(), ['a', 'b']);
+
+  // Local changes wait for the store to be fixed
+  patchAccount('a', { fail_count: 1 });
+  await syncRegistry();
+  assert.equal(await fs.readFile(TOKENS_FILE, 'utf8'), malformed);
+});
+
+test('an external edit is picked up', async () => {
+  mock.method(console, 'log', () => {});
+  await fs.writeFile(
+    TOKENS_FILE,
+    JSON.stringify({ version: TOKENS_SCHEMA_VERSION, accounts: [oauth('a'), oauth('c')] })
+  );
+  await until(() => ids().includes('c'));
+  assert.deepEqual(ids(), ['a', 'c']);
+  // The change made while the store was broken is written on top
+  assert.equal(listAccounts()[0].fail_count, 1);
+  assert.equal((await readTokens())[0].fail_count, 1);
+});